@@ -0,0 +1,145 @@
+// The gallery review page lists the designs waiting for moderation, oldest first.
+// Only admins can load it; each design is approved into the gallery or rejected.
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+import { Button } from "@/components/ui/button"
+import { CheckIcon, Cross2Icon, UpdateIcon } from "@radix-ui/react-icons"
+
+// Logo, ImageComponent, Bg, UserMenu are custom components
+import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import Bg from '@/components/bg/bg';
+import UserMenu from '@/components/auth/user-menu';
+
+import { readApiError } from '@/lib/errors';
+import type { GalleryItem } from '@/lib/gallery';
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
+export default function GalleryReview() {
+
+  // items holds the queued designs, nextCursor where the next page starts
+  const [items, setItems] = useState<GalleryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Function to load one page of the queue, appending it to what is already shown
+  const loadPage = useCallback(async (cursor: number) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/gallery?cursor=${cursor}`);
+      if (!response.ok) {
+        setError((await readApiError(response)).message);
+        return;
+      }
+      const page = await response.json();
+      setItems((current) => cursor === 0 ? page.items : [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem loading the queue: ' + error.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  // Function to approve or reject a design, taking it off the queue
+  const handleReview = async (id: string, action: 'approve' | 'reject') => {
+    const response = await fetch(`/api/admin/gallery/${id}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ action }),
+    });
+    if (!response.ok) {
+      setError((await readApiError(response)).message);
+      return;
+    }
+    setItems((current) => current.filter((item) => item.id !== id));
+    // The reviewed design left the queue, so the next page starts one earlier
+    setNextCursor((cursor) => cursor === null ? null : Math.max(0, cursor - 1));
+  };
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+          <UserMenu />
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-7xl px-4 py-32 sm:py-40">
+          <h1 className="text-4xl font-bold tracking-tight text-white text-center">
+            Gallery review
+          </h1>
+          <p className="text-sm text-red-600 pt-2 text-center">
+            {error}
+          </p>
+
+          {!loading && !error && items.length === 0 &&
+            <p className="mt-8 text-center text-gray-300">
+              The queue is empty.
+            </p>
+          }
+
+          <div className="mt-10 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+            {items.map((item, index) => (
+              <div key={item.id} className="flex flex-col items-center gap-2">
+                <ImageComponent
+                  src={item.image}
+                  pos={POSITIONS[index % POSITIONS.length]}
+                  prompt={item.prompt}
+                  actions={
+                    <>
+                      <Button onClick={() => handleReview(item.id, 'approve')}>
+                        <CheckIcon className="mr-2 h-4 w-4" /> Approve
+                      </Button>
+                      <Button variant="destructive" onClick={() => handleReview(item.id, 'reject')}>
+                        <Cross2Icon className="mr-2 h-4 w-4" /> Reject
+                      </Button>
+                    </>
+                  }
+                />
+                <p className="w-44 text-xs text-gray-400 sm:w-72">
+                  {item.authorName ?? 'Anonymous'} · {item.style} · {new Date(item.submittedAt).toLocaleString()}
+                  {item.tags.length > 0 && <> · {item.tags.map((tag) => `#${tag}`).join(' ')}</>}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {(loading || nextCursor !== null) &&
+            <div className="mt-16 flex justify-center">
+              <Button onClick={() => nextCursor !== null && loadPage(nextCursor)} disabled={loading}>
+                {loading && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          }
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the moderation queue and the admin check
+import { reviewGalleryItem, toPublicItem } from "@/lib/gallery";
+import { requireAdmin } from "@/lib/auth";
+import { errorResponse, readJsonBody, ValidationError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function, which approves or rejects a queued design
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin(req);
+
+    const body = await readJsonBody(req);
+    if (body?.action !== 'approve' && body?.action !== 'reject') {
+      throw new ValidationError('Action must be approve or reject.');
+    }
+
+    const item = await reviewGalleryItem(params.id, body.action === 'approve');
+    return new NextResponse(JSON.stringify(toPublicItem(item)), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,28 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the moderation queue and the admin check
+import { listGalleryQueue } from "@/lib/gallery";
+import { requireAdmin } from "@/lib/auth";
+import { errorResponse } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// The queue changes with every submission and review
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which lists designs waiting for review, oldest first
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req);
+
+    const cursor = Math.max(0, Number(req.nextUrl.searchParams.get('cursor')) || 0);
+    const page = await listGalleryQueue(cursor);
+    return new NextResponse(JSON.stringify(page), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
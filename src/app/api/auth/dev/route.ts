@@ -0,0 +1,27 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the sign-in helpers
+import { completeSignIn, findOrCreateUser, isDevLoginEnabled, parseEmail } from "@/lib/auth";
+import { errorResponse, NotFoundError, ValidationError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function, which signs in as any email address during development
+export async function POST(req: NextRequest) {
+  if (!isDevLoginEnabled()) {
+    return errorResponse(new NotFoundError('Not found.'));
+  }
+
+  const body = await req.json().catch(() => null);
+  const email = parseEmail(body?.email);
+  if (!email) {
+    return errorResponse(new ValidationError('Please enter a valid email address.'));
+  }
+
+  const user = await findOrCreateUser({ email, name: email.split('@')[0] }, { provider: 'dev', providerAccountId: email });
+  return completeSignIn(req, user, new NextResponse(JSON.stringify({ user }), {
+    headers: { "Content-Type": "application/json" },
+  }));
+}
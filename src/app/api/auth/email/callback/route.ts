@@ -0,0 +1,22 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the magic link and sign-in helpers
+import { completeSignIn, consumeMagicLink, findOrCreateUser } from "@/lib/auth";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the GET function, which signs in the owner of a magic link
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('token');
+  const link = token ? await consumeMagicLink(token) : null;
+
+  if (!link) {
+    return NextResponse.redirect(new URL('/signin?error=expired', req.nextUrl.origin));
+  }
+
+  // Opening the link proves the address, so it can be used to match an existing user
+  const user = await findOrCreateUser({ email: link.email });
+  return completeSignIn(req, user, NextResponse.redirect(new URL(link.callbackUrl, req.nextUrl.origin)));
+}
@@ -0,0 +1,44 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the magic link helpers and the sign-in email limit
+import { createMagicLink, isEmailEnabled, parseEmail, safeCallbackUrl, sendMagicLink } from "@/lib/auth";
+import { authRatelimit } from "@/lib/ratelimit";
+import { getClientIp } from "@/lib/identity";
+import { ApiError, errorResponse, NotFoundError, ValidationError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function, which emails a sign-in link
+export async function POST(req: NextRequest) {
+  if (!isEmailEnabled()) {
+    return errorResponse(new NotFoundError('Email sign-in is not configured.'));
+  }
+
+  const body = await req.json().catch(() => null);
+  const email = parseEmail(body?.email);
+  if (!email) {
+    return errorResponse(new ValidationError('Please enter a valid email address.'));
+  }
+
+  // Limiting by both the address and the sender, so neither can be used to spam
+  const [byEmail, byIp] = await Promise.all([
+    authRatelimit.limit(`email:${email}`),
+    authRatelimit.limit(getClientIp(req)),
+  ]);
+  if (!byEmail.success || !byIp.success) {
+    const reset = Math.max(byEmail.success ? 0 : byEmail.reset, byIp.success ? 0 : byIp.reset);
+    return errorResponse(new ApiError('rate_limited', 'Too many sign-in emails. Please try again later.', {
+      retryAfter: Math.max(0, Math.ceil((reset - Date.now()) / 1000)),
+    }));
+  }
+
+  try {
+    const token = await createMagicLink(email, safeCallbackUrl(body?.callbackUrl));
+    await sendMagicLink(email, `${req.nextUrl.origin}/api/auth/email/callback?token=${token}`);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
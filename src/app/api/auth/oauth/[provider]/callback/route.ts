@@ -0,0 +1,65 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the OAuth provider registry and sign-in helpers
+import { completeSignIn, findOrCreateUser, getOAuthProvider, OAUTH_STATE_COOKIE, safeCallbackUrl } from "@/lib/auth";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the GET function, which finishes signing in after the provider's consent screen
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  const failed = (reason: string) =>
+    NextResponse.redirect(new URL(`/signin?error=${reason}`, req.nextUrl.origin));
+
+  const provider = getOAuthProvider(params.provider);
+  if (!provider) {
+    return failed('provider');
+  }
+
+  // Rejecting callbacks that were not started by this browser
+  let saved: { state?: string; callbackUrl?: string } = {};
+  try {
+    saved = JSON.parse(req.cookies.get(OAUTH_STATE_COOKIE)?.value ?? '{}');
+  } catch {
+    return failed('state');
+  }
+  const code = req.nextUrl.searchParams.get('code');
+  if (!code || !saved.state || saved.state !== req.nextUrl.searchParams.get('state')) {
+    return failed('state');
+  }
+
+  try {
+    // Exchanging the code for an access token
+    const tokenResponse = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        client_id: process.env[provider.clientIdEnv]!,
+        client_secret: process.env[provider.clientSecretEnv]!,
+        code,
+        redirect_uri: `${req.nextUrl.origin}/api/auth/oauth/${provider.id}/callback`,
+        grant_type: 'authorization_code',
+      }),
+    });
+    const token = await tokenResponse.json();
+    if (!tokenResponse.ok || !token.access_token) {
+      return failed('oauth');
+    }
+
+    const { id, ...profile } = await provider.profile(token.access_token);
+    const user = await findOrCreateUser(profile, { provider: provider.id, providerAccountId: id });
+
+    const response = NextResponse.redirect(new URL(safeCallbackUrl(saved.callbackUrl), req.nextUrl.origin));
+    response.cookies.set(OAUTH_STATE_COOKIE, '', { maxAge: 0, path: '/api/auth/oauth' });
+    return completeSignIn(req, user, response);
+  } catch {
+    return failed('oauth');
+  }
+}
@@ -0,0 +1,43 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the OAuth provider registry
+import { getOAuthProvider, OAUTH_STATE_COOKIE, safeCallbackUrl } from "@/lib/auth";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// The state cookie only needs to outlive the trip to the provider
+const STATE_MAX_AGE = 10 * 60
+
+// Defining the GET function, which sends the caller to the provider's consent screen
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  const provider = getOAuthProvider(params.provider);
+  if (!provider) {
+    return NextResponse.redirect(new URL('/signin?error=provider', req.nextUrl.origin));
+  }
+
+  // The state ties the callback to this browser, and carries where to go afterwards
+  const state = crypto.randomUUID();
+  const callbackUrl = safeCallbackUrl(req.nextUrl.searchParams.get('callbackUrl'));
+
+  const url = new URL(provider.authorizeUrl);
+  url.searchParams.set('client_id', process.env[provider.clientIdEnv]!);
+  url.searchParams.set('redirect_uri', `${req.nextUrl.origin}/api/auth/oauth/${provider.id}/callback`);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', provider.scope);
+  url.searchParams.set('state', state);
+
+  const response = NextResponse.redirect(url);
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, callbackUrl }), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: STATE_MAX_AGE,
+    path: '/api/auth/oauth',
+  });
+  return response;
+}
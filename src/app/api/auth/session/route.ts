@@ -0,0 +1,22 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the user store and the sign-in methods
+import { getUser, isAdmin, listAuthProviders } from "@/lib/auth";
+import { getUserId } from "@/lib/identity";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// The session is per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which returns the signed-in user, whether they are an admin, and the available sign-in methods
+export async function GET(req: NextRequest) {
+  const userId = getUserId(req);
+  const user = userId ? await getUser(userId) : null;
+
+  return new NextResponse(JSON.stringify({ user, isAdmin: isAdmin(user), providers: listAuthProviders() }), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
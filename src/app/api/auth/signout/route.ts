@@ -0,0 +1,15 @@
+// Importing necessary types from Next.js server
+import { NextResponse } from "next/server";
+
+// Importing the session cookie settings
+import { SESSION_COOKIE, sessionCookieOptions } from "@/lib/auth";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function, which ends the caller's session
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
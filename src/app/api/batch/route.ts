@@ -0,0 +1,81 @@
+
+// Importing necessary libraries for handling requests and responses
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the X-RateLimit-* headers
+import { ratelimitHeaders } from '@/lib/ratelimit'
+
+// Importing the batch and generation request schemas
+import { BatchCell, parseBatchParams } from '@/lib/batch'
+import { toHistoryParams, toPredictionInput } from '@/lib/generation'
+import { ApiError, errorResponse, readJsonBody, toApiError } from '@/lib/errors'
+
+// Importing the prompt moderation
+import { moderatePrompt } from '@/lib/moderation'
+
+// Importing the style preset catalog used to template prompts
+import { buildNegativePrompt, buildPrompt, getStylePreset } from '@/lib/styles'
+
+// Importing the per-task model configuration
+import { getModelVersion } from '@/lib/models'
+
+// Importing the job queue, which debits the caller's credits and starts predictions as slots free up
+import { startPaidPredictions } from '@/lib/queue'
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST method, which starts one prediction for every prompt of a batch
+export async function POST(req: NextRequest) {
+    try {
+        // Validate the request body, expanding a template into its prompts
+        const { prompts, params } = parseBatchParams(await readJsonBody(req));
+
+        // Moderating every prompt, so a blocked one is reported in its cell and costs nothing
+        const blocked = await Promise.all(
+            prompts.map(({ prompt }) => moderatePrompt(prompt).then(() => null, toApiError))
+        );
+        const allowed = prompts.filter((_, index) => !blocked[index]);
+        if (!allowed.length) {
+            throw blocked[0] as ApiError;
+        }
+
+        // Resolve the style preset, which owns the prompt template
+        const style = getStylePreset(params.style);
+
+        // Debit the whole batch up front, so it either fits the quota or nothing starts, and queue one prediction
+        // per allowed prompt, in order, so the batch waits in line as a group
+        const { predictions, quota } = await startPaidPredictions(req, allowed.map(({ prompt }) => ({
+            input: toPredictionInput(
+                { ...params, message: prompt, negativePrompt: buildNegativePrompt(style, params.negativePrompt) },
+                buildPrompt(style, prompt)
+            ),
+            // Reference images go to the image-to-image model when one is configured
+            version: (params.image && getModelVersion('img2img')) || style.version,
+            credits: params.numOutputs,
+            history: { prompt, style: style.id, params: toHistoryParams(params) },
+            referenceImage: params.image,
+        })));
+
+        // Each cell reports its own outcome, blocked prompts by their moderation error
+        const cells: BatchCell[] = [];
+        for (let index = 0; index < prompts.length; index++) {
+            const result = blocked[index] ?? predictions.shift()!;
+            cells.push(result instanceof ApiError
+                ? { ...prompts[index], prediction: null, error: result.toJSON().error }
+                : { ...prompts[index], prediction: result, error: null });
+        }
+
+        // Return the cells in the order of the prompts, with the balance left after the debit
+        return new NextResponse(JSON.stringify({ cells }), {
+            status: 201,
+            headers: {
+                'Content-Type': 'application/json',
+                ...ratelimitHeaders(quota),
+            },
+        });
+    } catch (error) {
+        // Reporting the error in the shared envelope, with the status its code maps to
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,25 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the collection store and the owner lookup
+import { removeFromCollection } from "@/lib/collections";
+import { requireOwnerId } from "@/lib/identity";
+import { errorResponse } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the DELETE function, which removes a design from a collection
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; designId: string } }
+) {
+  try {
+    const view = await removeFromCollection(requireOwnerId(req), params.id, params.designId);
+    return new NextResponse(JSON.stringify(view), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
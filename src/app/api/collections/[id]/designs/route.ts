@@ -0,0 +1,28 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the collection store and the owner lookup
+import { addToCollection, parseDesignParams } from "@/lib/collections";
+import { requireOwnerId } from "@/lib/identity";
+import { errorResponse, readJsonBody } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function, which adds a design to the end of a collection
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = requireOwnerId(req);
+    const designId = parseDesignParams(await readJsonBody(req));
+
+    const view = await addToCollection(owner, params.id, designId);
+    return new NextResponse(JSON.stringify(view), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,60 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the collection store and the owner lookups
+import { deleteCollection, getCollectionView, parseCollectionUpdate, updateCollection } from "@/lib/collections";
+import { getOwnerId, requireOwnerId } from "@/lib/identity";
+import { errorResponse, NotFoundError, readJsonBody } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Collections are per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which loads one of the caller's collections with its designs
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const view = await getCollectionView(requireOwnerId(req), params.id);
+    return new NextResponse(JSON.stringify(view), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Defining the PATCH function, which renames, reorders, shares or unshares a collection
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = requireOwnerId(req);
+    const update = parseCollectionUpdate(await readJsonBody(req));
+
+    const view = await updateCollection(owner, params.id, update);
+    return new NextResponse(JSON.stringify(view), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Defining the DELETE function, which deletes a collection and revokes its share link
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const owner = getOwnerId(req);
+
+  if (!owner || !(await deleteCollection(owner, params.id))) {
+    return errorResponse(new NotFoundError('Collection not found.'));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,48 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the collection store and the owner lookups
+import { createCollection, listCollections, listCollectionsWith, parseCollectionName } from "@/lib/collections";
+import { getOwnerId, requireOwnerId } from "@/lib/identity";
+import { errorResponse, readJsonBody, ValidationError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Collections are per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which lists the caller's collections. With ?designId=, it also
+// returns the ids of the collections that already hold that design.
+export async function GET(req: NextRequest) {
+  const owner = getOwnerId(req);
+  const designId = req.nextUrl.searchParams.get('designId');
+
+  const collections = owner ? await listCollections(owner) : [];
+  const containing = owner && designId ? await listCollectionsWith(owner, designId) : [];
+
+  return new NextResponse(JSON.stringify(designId ? { collections, containing } : { collections }), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Defining the POST function, which creates a collection, optionally starting it with a design
+export async function POST(req: NextRequest) {
+  try {
+    const owner = requireOwnerId(req);
+    const body = await readJsonBody(req);
+    const name = parseCollectionName(body?.name);
+    if (body.designId !== undefined && typeof body.designId !== 'string') {
+      throw new ValidationError('designId must be a design id.');
+    }
+
+    const view = await createCollection(owner, name, body.designId);
+
+    return new NextResponse(JSON.stringify(view), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the favorites store and the owner lookup
+import { isFavorite, removeFavorite } from "@/lib/collections";
+import { getOwnerId } from "@/lib/identity";
+import { errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Favorites are per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which tells whether a design is one of the caller's favorites
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const owner = getOwnerId(req);
+  const favorite = owner ? await isFavorite(owner, params.id) : false;
+
+  return new NextResponse(JSON.stringify({ favorite }), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Defining the DELETE function, which removes a design from the caller's favorites
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const owner = getOwnerId(req);
+
+  if (!owner || !(await removeFavorite(owner, params.id))) {
+    return errorResponse(new NotFoundError('The design is not in your favorites.'));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,54 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the favorites store and the owner lookups
+import { addFavorite, DEFAULT_FAVORITES_PAGE_SIZE, listFavorites, parseDesignParams } from "@/lib/collections";
+import { MAX_HISTORY_PAGE_SIZE } from "@/lib/history";
+import { getOwnerId, requireOwnerId } from "@/lib/identity";
+import { errorResponse, readJsonBody } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Favorites are per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which lists the caller's favorite designs, most recently added first
+export async function GET(req: NextRequest) {
+  const owner = getOwnerId(req);
+
+  // Without an owner there are no favorites to show
+  if (!owner) {
+    return new NextResponse(JSON.stringify({ designs: [], nextCursor: null }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Reading the pagination parameters, clamped to the same bounds as the history
+  const cursor = Math.max(0, Number(req.nextUrl.searchParams.get('cursor')) || 0);
+  const limit = Math.min(
+    MAX_HISTORY_PAGE_SIZE,
+    Math.max(1, Number(req.nextUrl.searchParams.get('limit')) || DEFAULT_FAVORITES_PAGE_SIZE)
+  );
+
+  const page = await listFavorites(owner, cursor, limit);
+  return new NextResponse(JSON.stringify(page), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Defining the POST function, which adds a design to the caller's favorites
+export async function POST(req: NextRequest) {
+  try {
+    const owner = requireOwnerId(req);
+    const designId = parseDesignParams(await readJsonBody(req));
+
+    await addFavorite(owner, designId);
+    return new NextResponse(JSON.stringify({ favorite: true }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
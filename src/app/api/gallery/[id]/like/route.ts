@@ -0,0 +1,38 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the gallery store, the caller lookups and the like limit
+import { likeGalleryItem } from "@/lib/gallery";
+import { getOwnerId, getRatelimitIdentifier } from "@/lib/identity";
+import { ApiError, errorResponse, ValidationError } from "@/lib/errors";
+import { likeRatelimit, ratelimitHeaders } from "@/lib/ratelimit";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function, which likes an approved design once per browser or user
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = getOwnerId(req);
+    if (!owner) {
+      throw new ValidationError('Please enable cookies to like designs.');
+    }
+
+    const limit = await likeRatelimit.limit(getRatelimitIdentifier(req));
+    if (!limit.success) {
+      return errorResponse(new ApiError('rate_limited', 'Too many likes. Please try again later.', {
+        retryAfter: Math.max(0, Math.ceil((limit.reset - Date.now()) / 1000)),
+      }), ratelimitHeaders(limit));
+    }
+
+    const likes = await likeGalleryItem(params.id, owner);
+    return new NextResponse(JSON.stringify({ likes }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the gallery store and the caller lookups
+import { getGalleryItem, removeGalleryItem } from "@/lib/gallery";
+import { getOwnerId, getUserId } from "@/lib/identity";
+import { getUser, isAdmin } from "@/lib/auth";
+import { errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the DELETE function, which takes a design out of the gallery
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const item = await getGalleryItem(params.id);
+
+    // Only the publisher or an admin may remove an item
+    const userId = getUserId(req);
+    const allowed = item && (item.owner === getOwnerId(req) || isAdmin(userId ? await getUser(userId) : null));
+    if (!allowed || !(await removeGalleryItem(params.id))) {
+      throw new NotFoundError('Gallery item not found.');
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,53 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the gallery store, the design lookup and the caller lookups
+import { listGallery, parseGalleryQuery, parsePublishParams, publishDesign, toPublicItem } from "@/lib/gallery";
+import { getDesign, getHistoryEntry } from "@/lib/history";
+import { getOwnerId, getUserId } from "@/lib/identity";
+import { getUser } from "@/lib/auth";
+import { errorResponse, NotFoundError, readJsonBody } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Listings change with every approval and like
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which lists approved designs with optional style and tag filters
+export async function GET(req: NextRequest) {
+  try {
+    const page = await listGallery(parseGalleryQuery(req.nextUrl.searchParams));
+    return new NextResponse(JSON.stringify(page), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Defining the POST function, which submits one of the caller's designs to the moderation queue
+export async function POST(req: NextRequest) {
+  try {
+    const { designId, tags } = parsePublishParams(await readJsonBody(req));
+
+    // Callers can only publish designs from their own history
+    const owner = getOwnerId(req);
+    const design = await getDesign(designId);
+    const entry = design && (await getHistoryEntry(design.predictionId));
+    if (!owner || !design || entry?.owner !== owner) {
+      throw new NotFoundError('Design not found.');
+    }
+
+    const userId = getUserId(req);
+    const user = userId ? await getUser(userId) : null;
+    const item = await publishDesign(design, owner, user?.name ?? null, tags);
+
+    return new NextResponse(JSON.stringify(toPublicItem(item)), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the history store and the owner lookup
+import { deleteHistoryEntry } from "@/lib/history";
+import { removeGalleryItem } from "@/lib/gallery";
+import { designId } from "@/lib/designs";
+import { GENERATION_LIMITS } from "@/lib/generation";
+import { getOwnerId } from "@/lib/identity";
+import { errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the DELETE function, which removes one entry from the caller's history
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const owner = getOwnerId(req);
+
+  // Callers can only delete entries they own
+  if (!owner || !(await deleteHistoryEntry(owner, params.id))) {
+    return errorResponse(new NotFoundError('History entry not found.'));
+  }
+
+  // Deleted designs leave the gallery too, whichever of the outputs were published
+  for (let index = 0; index < GENERATION_LIMITS.numOutputs.max; index++) {
+    await removeGalleryItem(designId(params.id, index));
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
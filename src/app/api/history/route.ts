@@ -0,0 +1,36 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the history store and the owner lookup
+import { DEFAULT_HISTORY_PAGE_SIZE, listHistory, MAX_HISTORY_PAGE_SIZE } from "@/lib/history";
+import { getOwnerId } from "@/lib/identity";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// History is per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which lists the caller's past generations
+export async function GET(req: NextRequest) {
+  const owner = getOwnerId(req);
+
+  // Without an owner there is no history to show
+  if (!owner) {
+    return new NextResponse(JSON.stringify({ entries: [], nextCursor: null }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Reading the pagination parameters, clamped to sane values
+  const cursor = Math.max(0, Number(req.nextUrl.searchParams.get('cursor')) || 0);
+  const limit = Math.min(
+    MAX_HISTORY_PAGE_SIZE,
+    Math.max(1, Number(req.nextUrl.searchParams.get('limit')) || DEFAULT_HISTORY_PAGE_SIZE)
+  );
+
+  const page = await listHistory(owner, cursor, limit);
+  return new NextResponse(JSON.stringify(page), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,34 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the configured blob store
+import { getBlobStore } from "@/lib/blob";
+import { errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the GET function, which serves an ingested image from the blob store
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const blob = await getBlobStore().get(params.key.join('/'));
+
+    if (!blob) {
+      return errorResponse(new NotFoundError('Image not found.'));
+    }
+
+    // Blob keys never change content, so the response can be cached forever
+    return new NextResponse(blob.data, {
+      headers: {
+        "Content-Type": blob.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    // Reporting invalid keys and storage failures in the error envelope
+    return errorResponse(error);
+  }
+}
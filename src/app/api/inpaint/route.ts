@@ -0,0 +1,89 @@
+// Importing necessary libraries for handling requests and responses
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the X-RateLimit-* headers
+import { ratelimitHeaders } from '@/lib/ratelimit'
+
+// Importing the inpainting request schema
+import { parseInpaintParams } from '@/lib/edits'
+import { toHistoryParams, toPredictionInput } from '@/lib/generation'
+import { errorResponse, NotFoundError, readJsonBody } from '@/lib/errors'
+
+// Importing the prompt moderation
+import { moderatePrompt } from '@/lib/moderation'
+
+// Importing the style preset catalog used to template prompts
+import { buildNegativePrompt, buildPrompt, getStylePreset } from '@/lib/styles'
+
+// Importing the per-task model configuration
+import { getModelVersion } from '@/lib/models'
+
+// Importing the design lookup
+import { getDesign } from '@/lib/history'
+
+// Importing the job queue, which debits the caller's credits and starts predictions as slots free up
+import { startPaidPrediction } from '@/lib/queue'
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST method, which repaints the masked region of a design with a new prompt
+export async function POST(req: NextRequest) {
+    try {
+        // Validate the request body, enforcing the parameter bounds
+        const params = parseInpaintParams(await readJsonBody(req));
+
+        // Refuse prompts that break the content policy, before any credits are spent
+        await moderatePrompt(params.message);
+
+        // Load the design being edited
+        const design = await getDesign(params.designId);
+        if (!design) {
+            throw new NotFoundError('Design not found.');
+        }
+
+        // Edits keep the design's style unless the caller picks another one
+        const style = getStylePreset(params.style ?? design.style);
+
+        // Debit one credit per image and queue the inpainting prediction, linked to the design's prediction
+        const { prediction, quota } = await startPaidPrediction(req, {
+            input: {
+                ...toPredictionInput(
+                    { ...params, negativePrompt: buildNegativePrompt(style, params.negativePrompt) },
+                    buildPrompt(style, params.message)
+                ),
+                // The output keeps the size of the source image and mask
+                width: undefined,
+                height: undefined,
+                // The queue sends the design to the model as a data URL when the job starts
+                image: design.image,
+                mask: params.mask,
+            },
+            version: getModelVersion('inpaint') || style.version,
+            credits: params.numOutputs,
+            history: {
+                prompt: params.message,
+                style: style.id,
+                parentId: design.predictionId,
+                params: {
+                    ...toHistoryParams(params),
+                    // The output keeps the size of the source image
+                    aspectRatio: design.params.aspectRatio,
+                    referenceImage: design.image,
+                },
+            },
+        });
+
+        // Return the prediction in the response with status 201 and rate limit headers
+        return new NextResponse(JSON.stringify(prediction), {
+            status: 201,
+            headers: {
+                'Content-Type': 'application/json',
+                ...ratelimitHeaders(quota),
+            },
+        });
+    } catch (error) {
+        // Reporting the error in the shared envelope, with the status its code maps to
+        return errorResponse(error);
+    }
+}
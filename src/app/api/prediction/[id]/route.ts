@@ -0,0 +1,74 @@
+// Importing necessary libraries for handling requests and responses
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the configured image-generation provider
+import { getProvider, isTerminal } from '@/lib/providers'
+
+// Importing the prediction store and credit refund
+import { getPredictionOwner, releasePredictionOwner, savePrediction } from '@/lib/predictions'
+import { refundCredits } from '@/lib/quota'
+import { cancelJob, getJob, isJobId, pumpQueue } from '@/lib/queue'
+import { getRatelimitIdentifier } from '@/lib/identity'
+import { errorResponse, NotFoundError } from '@/lib/errors'
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the DELETE method, which cancels a running prediction
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    // Identifying the caller the same way the prediction routes did
+    const identifier = getRatelimitIdentifier(req)
+    let id = params.id;
+
+    try {
+        // Jobs still waiting in line are taken out of it, without reaching the provider
+        if (isJobId(id)) {
+            const canceled = await cancelJob(id, identifier);
+            if (canceled) {
+                return new NextResponse(JSON.stringify(canceled), {
+                    status: 200,
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+            // A job that already started is canceled through its prediction
+            id = (await getJob(id))?.predictionId ?? id;
+        }
+
+        // Only the caller who started a prediction may cancel it
+        const owner = await getPredictionOwner(id);
+        if (!owner || owner.identifier !== identifier) {
+            return errorResponse(new NotFoundError('Prediction not found.'));
+        }
+
+        // Asking the provider to stop the prediction
+        let prediction = await getProvider().cancelPrediction(id);
+
+        if (prediction.status === 'canceled') {
+            // Refunding the credits exactly once, even if cancel is called twice
+            if (await releasePredictionOwner(id)) {
+                await refundCredits(owner.identifier, owner.credits, owner.createdAt);
+            }
+        }
+
+        if (isTerminal(prediction.status)) {
+            // Storing every settled prediction, so a run that finished first returns its ingested and screened outputs
+            prediction = await savePrediction(prediction);
+        }
+
+        if (prediction.status === 'canceled') {
+            // Handing the freed slot to the next job in line, now that the stored prediction shows it settled
+            await pumpQueue();
+        }
+
+        return new NextResponse(JSON.stringify(prediction), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch (error) {
+        // If an error occurs, return the error envelope with the status its code maps to
+        return errorResponse(error);
+    }
+}
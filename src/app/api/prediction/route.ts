@@ -2,87 +2,104 @@
 // Importing necessary libraries for handling requests and responses
 import { NextRequest, NextResponse } from "next/server";
 
-// Importing Ratelimit for handling rate limiting
-import { Ratelimit } from '@upstash/ratelimit'
+// Importing the X-RateLimit-* headers
+import { ratelimitHeaders } from '@/lib/ratelimit'
 
-// Importing kv from @vercel/kv for key-value storage
-import { kv } from '@vercel/kv'
+// Importing the generation request schema
+import { parseGenerationParams, toHistoryParams, toPredictionInput } from '@/lib/generation'
+import { errorResponse, readJsonBody } from '@/lib/errors'
 
-// Setting up the rate limiter with a sliding window of 5 requests per hour
-const ratelimit = new Ratelimit({
-    redis: kv,
-    limiter: Ratelimit.slidingWindow(20, '1 h'),
-})
+// Importing the prompt moderation
+import { moderatePrompt } from '@/lib/moderation'
+
+// Importing the style preset catalog used to template prompts
+import { buildNegativePrompt, buildPrompt, getStylePreset } from '@/lib/styles'
+
+// Importing the per-task model configuration
+import { getModelVersion } from '@/lib/models'
+
+// Importing the job queue, which debits the caller's credits and starts predictions as slots free up
+import { startPaidPrediction } from '@/lib/queue'
+
+// Importing the caller lookups
+import { getOwnerId } from '@/lib/identity'
+
+// Importing the result cache, which reuses the outputs of identical seeded requests
+import { CACHE_STATUS_HEADER, cacheResult, findCachedResult, resultCacheHash } from '@/lib/result-cache'
 
 // Configuring the runtime environment
-export const runtime = 'edge'
+export const runtime = 'nodejs'
 
 // Defining the POST method for the API endpoint
 export async function POST(req: NextRequest) {
-    // Getting the IP address from the request, defaulting to localhost if not found
-    const ip = req.ip ?? '127.0.0.1'
-
-    // Checking the rate limit for the IP address
-    const { success, limit, reset, remaining } = await ratelimit.limit(ip)
-
-    // If the rate limit has been reached, return a response with status 429 and rate limit headers
-    if (!success) {
-        return new NextResponse('You have reached your request limit for the day.', {
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': limit.toString(),
-            'X-RateLimit-Remaining': remaining.toString(),
-            'X-RateLimit-Reset': reset.toString()
-          }
-        })
-      }
-
-    // Try to process the request
     try {
         // Parse the request body as JSON
-        const body = await req.json();
+        const body = await readJsonBody(req);
 
-        // Extract the message from the request body
-        const { message } = body;
+        // Validate the request body, enforcing the parameter bounds
+        const params = parseGenerationParams(body);
 
-        // Make a POST request to the Replicate API with the message as input
-        const response = await fetch("https://api.replicate.com/v1/predictions", {
-            method: "POST",
-            headers: {
-                Authorization: `Token ${process.env.REPLICATE_API_TOKEN}`,
-                "Content-Type": "application/json",
+        // Refuse prompts that break the content policy, before any credits are spent
+        await moderatePrompt(params.message);
+
+        // Resolve the style preset, which owns the prompt template
+        const style = getStylePreset(params.style);
+
+        // Build the model input, and pick the model: reference images go to the image-to-image model when one is configured
+        const input = toPredictionInput(
+            { ...params, negativePrompt: buildNegativePrompt(style, params.negativePrompt) },
+            buildPrompt(style, params.message)
+        );
+        const version = (params.image && getModelVersion('img2img')) || style.version;
+
+        // Look for an identical seeded request of the same caller, unless they asked to regenerate anyway
+        const owner = getOwnerId(req);
+        const regenerate = body?.regenerate === true;
+        const cacheHash = owner ? await resultCacheHash(input, version) : null;
+        if (owner && cacheHash && !regenerate) {
+            const cached = await findCachedResult(owner, cacheHash);
+            if (cached) {
+                // Return the earlier prediction, finished or still running, without spending any credits
+                return new NextResponse(JSON.stringify(cached), {
+                    status: 200,
+                    headers: {
+                        'Content-Type': 'application/json',
+                        [CACHE_STATUS_HEADER]: 'HIT',
+                    },
+                });
+            }
+        }
+
+        // Debit one credit per image and queue the prediction, which starts right away unless the caller or the service is at capacity
+        const { prediction, quota } = await startPaidPrediction(req, {
+            input,
+            version,
+            credits: params.numOutputs,
+            history: {
+                prompt: params.message,
+                style: style.id,
+                params: toHistoryParams(params),
             },
-            body: JSON.stringify({
-                version: "0ea3d46aac800ae87cd210a5e98f4eee1f4b3b183837e922db3574b7170e0308",
-                input: { prompt: message, num_outputs: 4 },
-            }),
+            referenceImage: params.image,
         });
 
-        // Parse the response as JSON
-        const prediction = await response.json();
+        // Remember the run, so the next identical request reuses it. The run is queued and paid for by now,
+        // so failing to remember it only costs the reuse.
+        if (owner && cacheHash) {
+            await cacheResult(owner, cacheHash, prediction.id).catch(() => undefined);
+        }
 
-        // Return the prediction in the response with status 201 and rate limit headers
+        // Return the prediction in the response with status 201, rate limit headers and whether the cache was skipped
         return new NextResponse(JSON.stringify(prediction), {
             status: 201,
             headers: {
                 'Content-Type': 'application/json', 
-                'X-RateLimit-Limit': limit.toString(),
-                'X-RateLimit-Remaining': remaining.toString(),
-                'X-RateLimit-Reset': reset.toString(),
-            },
-        });
-    } catch (error: any) {
-        // If an error occurs, return a response with status 500 and the error message
-        let error_response = {
-            status: "error",
-            message: error.message,
-        };
-
-        return new NextResponse(JSON.stringify(error_response), {
-            status: 500,
-            headers: {
-                'Content-Type': 'application/json', 
+                ...ratelimitHeaders(quota),
+                [CACHE_STATUS_HEADER]: cacheHash && regenerate ? 'BYPASS' : 'MISS',
             },
         });
+    } catch (error) {
+        // Reporting the error in the shared envelope, with the status its code maps to
+        return errorResponse(error);
     }
 }
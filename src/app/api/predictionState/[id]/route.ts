@@ -1,13 +1,12 @@
 // Importing necessary types from Next.js server
 import { NextRequest, NextResponse } from "next/server";
 
-// Defining the structure of error response
-type ErrorResponse = {
-  detail: string;
-};
+// Importing the prediction lookup, which also answers for jobs waiting in the queue
+import { loadQueuedPrediction } from "@/lib/queue";
+import { errorResponse } from "@/lib/errors";
 
-// Configuring the function to run at the edge servers
-export const runtime = 'edge'
+// Configuring the runtime environment
+export const runtime = 'nodejs'
 
 // Defining the GET function for the API endpoint
 export async function GET(
@@ -17,32 +16,13 @@ export async function GET(
   // Extracting the id from the request parameters
   const id = params.id;
 
-  // Making a fetch request to the Replicate API with the provided id
-  const response = await fetch(
-    "https://api.replicate.com/v1/predictions/" + id,
-    {
-      next: { revalidate: 1 },
-      // Setting the necessary headers for the request
-      headers: {
-        Authorization: `Token ${process.env.REPLICATE_API_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-    }
-  );
-
-  // Checking if the response status is not 200
-  if (response.status !== 200) {
-    // Parsing the error response
-    let error: ErrorResponse = await response.json();
-    // Returning the error response with a status of 500
-    return new NextResponse(JSON.stringify({ detail: error.detail }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
+  try {
+    // Fetching the current state of the prediction, from KV when it has completed
+    const prediction = await loadQueuedPrediction(id);
+    // Returning the successful response
+    return new NextResponse(JSON.stringify(prediction));
+  } catch (error) {
+    // Returning the error envelope, with status 404 for unknown predictions
+    return errorResponse(error);
   }
-
-  // Parsing the successful response
-  const prediction = await response.json();
-  // Returning the successful response
-  return new NextResponse(JSON.stringify(prediction));
 }
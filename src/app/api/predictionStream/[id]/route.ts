@@ -0,0 +1,103 @@
+// Importing necessary types from Next.js server
+import { NextRequest } from "next/server";
+
+// Importing the prediction lookup, which also answers for jobs waiting in the queue
+import { loadQueuedPrediction } from "@/lib/queue";
+import { isTerminal } from "@/lib/providers";
+
+// Importing the log-derived progress helper
+import { getProgress, PredictionEvent } from "@/lib/progress";
+import { toApiError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Streams must never be cached
+export const dynamic = 'force-dynamic'
+
+// How often the provider is polled for a new status
+const POLL_INTERVAL_MS = 1000
+
+// How often a comment is sent to keep idle connections open
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// sleep is a utility function that pauses execution for a specified time
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Defining the GET function, which streams prediction status transitions as server-sent events
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  // Extracting the id from the request parameters
+  const id = params.id;
+  const encoder = new TextEncoder();
+
+  // Set once the client goes away, after which the controller throws on every write
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Checking that the client is still listening
+      const connected = () => !closed && !req.signal.aborted;
+
+      // Writing to the stream, dropping anything sent after the client left
+      const write = (chunk: string) => {
+        if (connected()) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      // Writing a single SSE frame to the stream
+      const send = (event: PredictionEvent) => write(`data: ${JSON.stringify(event)}\n\n`);
+
+      let lastKey = '';
+      let lastSentAt = Date.now();
+
+      try {
+        // Polling until the prediction settles or the client disconnects
+        while (connected()) {
+          const prediction = await loadQueuedPrediction(id);
+          const progress = getProgress(prediction);
+
+          // Only pushing an event when the status, progress or place in line actually changed
+          const key = `${prediction.status}:${progress}:${prediction.queue_position ?? ''}`;
+          if (key !== lastKey) {
+            // Logs are only needed server-side to compute progress, so they are not forwarded
+            send({ prediction: { ...prediction, logs: null }, progress });
+            lastKey = key;
+            lastSentAt = Date.now();
+          } else if (Date.now() - lastSentAt > HEARTBEAT_INTERVAL_MS) {
+            write(': heartbeat\n\n');
+            lastSentAt = Date.now();
+          }
+
+          if (isTerminal(prediction.status)) {
+            break;
+          }
+
+          await sleep(POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        // Reporting provider errors to the client in the error envelope before closing the stream
+        send(toApiError(error).toJSON());
+      }
+
+      if (connected()) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,43 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the design lookup and image loading
+import { getDesign } from "@/lib/history";
+import { loadImage } from "@/lib/ingest";
+
+// Importing the print layout and the style catalog, for the caption
+import { createPrintPdf, parsePrintOptions } from "@/lib/print";
+import { STYLE_PRESETS } from "@/lib/styles";
+import { errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the GET function, which exports a design as a PDF at its physical print size
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const options = parsePrintOptions(req.nextUrl.searchParams);
+
+    const design = await getDesign(params.id);
+    if (!design) {
+      return errorResponse(new NotFoundError('Design not found.'));
+    }
+
+    const { data } = await loadImage(design.image, req.nextUrl.origin);
+    const styleName = STYLE_PRESETS.find((style) => style.id === design.style)?.name ?? design.style;
+    const pdf = await createPrintPdf(design, styleName, data, options);
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="tattoo-${design.id}-${options.width}${options.unit}${options.mirror ? '-mirrored' : ''}.pdf"`,
+        "Cache-Control": "public, max-age=86400",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
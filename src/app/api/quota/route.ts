@@ -0,0 +1,24 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the credit quota and its headers
+import { getQuota, getQuotaSubject, quotaHeaderValues } from "@/lib/quota";
+import { ratelimitHeaders } from "@/lib/ratelimit";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Quotas are per caller and must never be cached
+export const dynamic = 'force-dynamic'
+
+// Defining the GET function, which reports the caller's remaining credits
+export async function GET(req: NextRequest) {
+  const status = await getQuota(await getQuotaSubject(req));
+
+  return new NextResponse(JSON.stringify(status), {
+    headers: {
+      "Content-Type": "application/json",
+      ...ratelimitHeaders(quotaHeaderValues(status)),
+    },
+  });
+}
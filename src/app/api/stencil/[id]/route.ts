@@ -0,0 +1,42 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the design lookup and image loading
+import { getDesign } from "@/lib/history";
+import { loadImage } from "@/lib/ingest";
+
+// Importing the stencil pipeline
+import { createStencil, parseStencilFormat, stencilToPng, stencilToSvg } from "@/lib/stencil";
+import { errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the GET function, which exports a design as stencil line art
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const format = parseStencilFormat(req.nextUrl.searchParams.get('format'));
+
+    const design = await getDesign(params.id);
+    if (!design) {
+      return errorResponse(new NotFoundError('Design not found.'));
+    }
+
+    const { data } = await loadImage(design.image, req.nextUrl.origin);
+    const stencil = await createStencil(data);
+
+    // A design's image never changes, but it may be deleted, so stencils are cached for a day
+    return new NextResponse(format === 'svg' ? stencilToSvg(stencil) : await stencilToPng(stencil), {
+      headers: {
+        "Content-Type": format === 'svg' ? 'image/svg+xml' : 'image/png',
+        "Content-Disposition": `attachment; filename="tattoo-${design.id}-stencil.${format}"`,
+        "Cache-Control": "public, max-age=86400",
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+// Importing necessary libraries for handling requests and responses
+import { NextResponse } from "next/server";
+
+// Importing the style preset catalog
+import { DEFAULT_STYLE_ID, STYLE_PRESETS } from '@/lib/styles'
+
+// Configuring the runtime environment
+export const runtime = 'edge'
+
+// Defining the GET method, which lists the available style presets
+export async function GET() {
+    // Templates stay on the server; clients only need what to show in the picker
+    const styles = STYLE_PRESETS.map(({ id, name, description }) => ({ id, name, description }));
+
+    return new NextResponse(JSON.stringify({ styles, defaultStyle: DEFAULT_STYLE_ID }), {
+        status: 200,
+        headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=3600',
+        },
+    });
+}
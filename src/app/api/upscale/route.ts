@@ -0,0 +1,68 @@
+// Importing necessary libraries for handling requests and responses
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the X-RateLimit-* headers
+import { ratelimitHeaders } from '@/lib/ratelimit'
+
+// Importing the upscale request schema
+import { parseVariationParams, UPSCALE_FACTOR } from '@/lib/edits'
+import { errorResponse, NotFoundError, readJsonBody } from '@/lib/errors'
+
+// Importing the per-task model configuration
+import { getModelVersion } from '@/lib/models'
+
+// Importing the design lookup
+import { getDesign } from '@/lib/history'
+
+// Importing the job queue, which debits the caller's credits and starts predictions as slots free up
+import { startPaidPrediction } from '@/lib/queue'
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST method, which upscales a design to a higher resolution
+export async function POST(req: NextRequest) {
+    try {
+        // Validate the request body, upscaling always produces a single output
+        const { designId } = parseVariationParams(await readJsonBody(req));
+
+        // Load the design being upscaled
+        const design = await getDesign(designId);
+        if (!design) {
+            throw new NotFoundError('Design not found.');
+        }
+
+        // Debit one credit and queue the upscale prediction, linked to the design's prediction
+        const { prediction, quota } = await startPaidPrediction(req, {
+            input: {
+                // The queue sends the design to the model as a data URL when the job starts
+                image: design.image,
+                scale: UPSCALE_FACTOR,
+            },
+            version: getModelVersion('upscale'),
+            credits: 1,
+            history: {
+                prompt: design.prompt,
+                style: design.style,
+                parentId: design.predictionId,
+                params: {
+                    ...design.params,
+                    numOutputs: 1,
+                    referenceImage: design.image,
+                },
+            },
+        });
+
+        // Return the prediction in the response with status 201 and rate limit headers
+        return new NextResponse(JSON.stringify(prediction), {
+            status: 201,
+            headers: {
+                'Content-Type': 'application/json',
+                ...ratelimitHeaders(quota),
+            },
+        });
+    } catch (error) {
+        // Reporting the error in the shared envelope, with the status its code maps to
+        return errorResponse(error);
+    }
+}
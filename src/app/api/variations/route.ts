@@ -0,0 +1,82 @@
+// Importing necessary libraries for handling requests and responses
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the X-RateLimit-* headers
+import { ratelimitHeaders } from '@/lib/ratelimit'
+
+// Importing the variation request schema
+import { parseVariationParams, VARIATION_PROMPT_STRENGTH } from '@/lib/edits'
+import { DEFAULT_GENERATION_PARAMS, toHistoryParams, toPredictionInput } from '@/lib/generation'
+import { errorResponse, NotFoundError, readJsonBody } from '@/lib/errors'
+
+// Importing the style preset catalog used to template prompts
+import { buildNegativePrompt, buildPrompt, getStylePreset } from '@/lib/styles'
+
+// Importing the per-task model configuration
+import { getModelVersion } from '@/lib/models'
+
+// Importing the design lookup
+import { getDesign } from '@/lib/history'
+
+// Importing the job queue, which debits the caller's credits and starts predictions as slots free up
+import { startPaidPrediction } from '@/lib/queue'
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST method, which runs a design's prompt again starting from its image
+export async function POST(req: NextRequest) {
+    try {
+        // Validate the request body
+        const { designId, numOutputs } = parseVariationParams(await readJsonBody(req));
+
+        // Load the design being varied
+        const design = await getDesign(designId);
+        if (!design) {
+            throw new NotFoundError('Design not found.');
+        }
+
+        // Variations reuse the design's prompt and settings with a fresh seed, so outputs differ
+        const style = getStylePreset(design.style);
+        const params = {
+            ...DEFAULT_GENERATION_PARAMS,
+            ...design.params,
+            message: design.prompt,
+            seed: undefined,
+            numOutputs: numOutputs ?? DEFAULT_GENERATION_PARAMS.numOutputs,
+            promptStrength: VARIATION_PROMPT_STRENGTH,
+        };
+
+        // Debit one credit per image and queue the image-to-image prediction, linked to the design's prediction
+        const { prediction, quota } = await startPaidPrediction(req, {
+            input: {
+                ...toPredictionInput(
+                    { ...params, negativePrompt: buildNegativePrompt(style, params.negativePrompt) },
+                    buildPrompt(style, params.message)
+                ),
+                // The queue sends the design to the model as a data URL when the job starts
+                image: design.image,
+            },
+            version: getModelVersion('img2img') || style.version,
+            credits: params.numOutputs,
+            history: {
+                prompt: design.prompt,
+                style: style.id,
+                parentId: design.predictionId,
+                params: { ...toHistoryParams(params), referenceImage: design.image },
+            },
+        });
+
+        // Return the prediction in the response with status 201 and rate limit headers
+        return new NextResponse(JSON.stringify(prediction), {
+            status: 201,
+            headers: {
+                'Content-Type': 'application/json',
+                ...ratelimitHeaders(quota),
+            },
+        });
+    } catch (error) {
+        // Reporting the error in the shared envelope, with the status its code maps to
+        return errorResponse(error);
+    }
+}
@@ -0,0 +1,51 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from "next/server";
+
+// Importing the signature check and prediction store
+import { verifyWebhook } from "@/lib/webhooks";
+import { savePrediction } from "@/lib/predictions";
+import { toPrediction } from "@/lib/providers/replicate";
+import { pumpQueue } from "@/lib/queue";
+import { ApiError, errorResponse, NotFoundError } from "@/lib/errors";
+
+// Configuring the runtime environment
+export const runtime = 'nodejs'
+
+// Defining the POST function Replicate calls when a prediction completes
+export async function POST(req: NextRequest) {
+  const secret = process.env.REPLICATE_WEBHOOK_SECRET;
+
+  // Webhooks are disabled unless a signing secret is configured
+  if (!secret) {
+    return errorResponse(new NotFoundError('Webhooks are not configured.'));
+  }
+
+  // Reading the raw body, since the signature covers the exact bytes sent
+  const body = await req.text();
+
+  const valid = await verifyWebhook(body, {
+    id: req.headers.get('webhook-id'),
+    timestamp: req.headers.get('webhook-timestamp'),
+    signature: req.headers.get('webhook-signature'),
+  }, secret);
+
+  if (!valid) {
+    return errorResponse(new ApiError('unauthorized', 'Invalid webhook signature.'));
+  }
+
+  // Parsing the payload, refusing a signed body that is not JSON in the error envelope
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return errorResponse(new ApiError('invalid_request', 'The webhook body is not valid JSON.'));
+  }
+
+  // Storing the final prediction record so state lookups are served from KV
+  await savePrediction(toPrediction(payload));
+
+  // Handing the freed slot to the next job in line
+  await pumpQueue();
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,196 @@
+// The collection page is where the owner arranges one collection: renaming it, reordering and
+// removing its designs, and sharing it read-only through a secret link.
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowLeftIcon, ArrowRightIcon, Share1Icon, TrashIcon } from "@radix-ui/react-icons"
+
+// Logo, ImageComponent, Bg, UserMenu, CopyLinkButton are custom components
+import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import Bg from '@/components/bg/bg';
+import UserMenu from '@/components/auth/user-menu';
+import CopyLinkButton from '@/components/image/copy-link-button';
+
+import type { CollectionUpdate, CollectionView } from '@/lib/collections';
+import { readApiError } from '@/lib/errors';
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
+// Props Next.js passes to the page
+interface CollectionPageProps {
+  params: { id: string }
+}
+
+export default function CollectionPage({ params }: CollectionPageProps) {
+  const router = useRouter();
+
+  // view holds the collection and its designs, name the title being edited
+  const [view, setView] = useState<CollectionView | null>(null);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Function to show a collection the server sent back
+  const showView = useCallback((next: CollectionView) => {
+    setView(next);
+    setName(next.collection.name);
+  }, []);
+
+  useEffect(() => {
+    fetch(`/api/collections/${params.id}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          setError((await readApiError(response)).message);
+          return;
+        }
+        showView(await response.json());
+      })
+      .catch((error) => setError('There was a problem loading the collection: ' + error.message));
+  }, [params.id, showView]);
+
+  // Function to send a change and show the collection that comes back
+  const send = async (url: string, init: RequestInit) => {
+    setError(null);
+    const response = await fetch(url, { ...init, headers: { 'content-type': 'application/json' } });
+    if (!response.ok) {
+      setError((await readApiError(response)).message);
+      return;
+    }
+    showView(await response.json());
+  };
+
+  const update = (changes: CollectionUpdate) =>
+    send(`/api/collections/${params.id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+
+  // Function to swap a design with its neighbour, sending the whole new order
+  const move = (index: number, offset: number) => {
+    if (!view) {
+      return;
+    }
+    const designIds = view.collection.designIds.slice();
+    const from = designIds.indexOf(view.designs[index].id);
+    const to = designIds.indexOf(view.designs[index + offset].id);
+    [designIds[from], designIds[to]] = [designIds[to], designIds[from]];
+    update({ designIds });
+  };
+
+  const handleRemove = (designId: string) =>
+    send(`/api/collections/${params.id}/designs/${designId}`, { method: 'DELETE' });
+
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    update({ name });
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this collection? The designs stay in your history.')) {
+      return;
+    }
+    const response = await fetch(`/api/collections/${params.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError((await readApiError(response)).message);
+      return;
+    }
+    router.push('/collections');
+  };
+
+  const shareToken = view?.collection.shareToken;
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+          <UserMenu />
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-7xl px-4 py-32 sm:py-40">
+          <Link href="/collections" className="text-sm text-gray-400 hover:text-white">
+            <span aria-hidden="true">&larr;</span> All collections
+          </Link>
+
+          {view &&
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-4 border-b border-gray-400/10 pb-4">
+              <form className="flex gap-2" onSubmit={handleRename}>
+                <Input className="w-64 text-lg font-semibold text-white" value={name} onChange={(event) => setName(event.target.value)} aria-label="Collection name" />
+                {name !== view.collection.name &&
+                  <Button type="submit" variant="outline">Rename</Button>
+                }
+              </form>
+              <div className="flex flex-wrap gap-2">
+                {shareToken && <CopyLinkButton path={`/shared/${shareToken}`} />}
+                <Button variant="outline" onClick={() => update({ shared: !shareToken })}>
+                  <Share1Icon className="mr-2 h-4 w-4" /> {shareToken ? 'Stop sharing' : 'Share'}
+                </Button>
+                <Button variant="outline" onClick={handleDelete}>
+                  <TrashIcon className="mr-2 h-4 w-4" /> Delete
+                </Button>
+              </div>
+            </div>
+          }
+          {shareToken &&
+            <p className="pt-2 text-xs text-gray-400">
+              Anyone with the link can view this collection, but not change it.
+            </p>
+          }
+
+          <p className="text-sm text-red-600 pt-2 text-center">
+            {error}
+          </p>
+
+          {view?.designs.length === 0 &&
+            <p className="mt-8 text-center text-gray-300">
+              This collection is empty. Open a design and save it here.
+            </p>
+          }
+
+          <div className="mt-10 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+            {view?.designs.map((design, index, designs) => (
+              <div key={design.id} className="flex flex-col items-center gap-2">
+                <ImageComponent
+                  src={design.image}
+                  pos={POSITIONS[index % POSITIONS.length]}
+                  title={`${index + 1}`}
+                  prompt={design.prompt}
+                  designId={design.id}
+                  actions={
+                    <Button variant="outline" onClick={() => handleRemove(design.id)}>
+                      Remove from collection
+                    </Button>
+                  }
+                />
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move earlier">
+                    <ArrowLeftIcon className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === designs.length - 1} aria-label="Move later">
+                    <ArrowRightIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+// The collections page shows the caller's favorite designs and the collections they gathered,
+// such as mood boards to take to an artist. New collections are created here.
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Next.js's Image component is an extension of the HTML <img> element, evolved for the modern web.
+import Image from 'next/image'
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from '@/components/ui/skeleton';
+import { PlusIcon, StarFilledIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+// Logo, ImageComponent, Bg, UserMenu are custom components
+import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import Bg from '@/components/bg/bg';
+import UserMenu from '@/components/auth/user-menu';
+
+import type { CollectionSummary } from '@/lib/collections';
+import type { Design } from '@/lib/designs';
+import { readApiError } from '@/lib/errors';
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
+export default function Collections() {
+
+  // favorites holds the loaded favorite designs, nextCursor where the next page starts
+  const [favorites, setFavorites] = useState<Design[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [collections, setCollections] = useState<CollectionSummary[] | null>(null);
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Function to load one page of favorites, appending it to what is already shown
+  const loadFavorites = useCallback(async (cursor: number) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/favorites?cursor=${cursor}`);
+      if (!response.ok) {
+        setError((await readApiError(response)).message);
+        return;
+      }
+      const page = await response.json();
+      setFavorites((current) => cursor === 0 ? page.designs : [...current, ...page.designs]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem loading your favorites: ' + error.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFavorites(0);
+    fetch('/api/collections')
+      .then((response) => response.json())
+      .then((data: { collections: CollectionSummary[] }) => setCollections(data.collections))
+      .catch((error) => setError('There was a problem loading your collections: ' + error.message));
+  }, [loadFavorites]);
+
+  // Function to take a design out of the favorites
+  const handleUnfavorite = async (id: string) => {
+    const response = await fetch(`/api/favorites/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError((await readApiError(response)).message);
+      return;
+    }
+    setFavorites((current) => current.filter((design) => design.id !== id));
+    setNextCursor((cursor) => cursor === null ? null : Math.max(0, cursor - 1));
+  };
+
+  // Function to create an empty collection
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    const response = await fetch('/api/collections', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+    if (!response.ok) {
+      setError((await readApiError(response)).message);
+      return;
+    }
+    const { collection } = await response.json();
+    setCollections((current) => [
+      { id: collection.id, name: collection.name, size: 0, cover: null, shareToken: null, updatedAt: collection.updatedAt },
+      ...(current ?? []),
+    ]);
+    setName('');
+  };
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+          <UserMenu />
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-7xl px-4 py-32 sm:py-40">
+          <h1 className="text-4xl font-bold tracking-tight text-white text-center">
+            Your collections
+          </h1>
+          <p className="text-sm text-red-600 pt-2 text-center">
+            {error}
+          </p>
+
+          <section className="mt-16">
+            <div className="flex flex-wrap items-center justify-between gap-4 border-b border-gray-400/10 pb-2">
+              <h2 className="text-lg font-semibold text-white">Collections</h2>
+              <form className="flex gap-2" onSubmit={handleCreate}>
+                <Input className="h-8 w-48 text-xs" value={name} onChange={(event) => setName(event.target.value)} placeholder="New collection" />
+                <Button type="submit" size="sm" disabled={!name.trim()}>
+                  <PlusIcon className="mr-1 h-4 w-4" /> Create
+                </Button>
+              </form>
+            </div>
+            {collections?.length === 0 &&
+              <p className="mt-6 text-center text-sm text-gray-300">
+                No collections yet. Save a design into a new one, or create one above.
+              </p>
+            }
+            <div className="mt-6 grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+              {collections === null && <Skeleton className="aspect-[9/10] rounded-xl" />}
+              {collections?.map((collection) => (
+                <Link key={collection.id} href={`/collections/${collection.id}`} className="group">
+                  <div className="relative aspect-[9/10] overflow-hidden rounded-xl border-2 border-white bg-zinc-800">
+                    {collection.cover &&
+                      <Image alt={collection.name} src={collection.cover} width={320} height={320} className="absolute inset-0 h-full w-full object-cover transition group-hover:scale-105" />
+                    }
+                  </div>
+                  <p className="mt-2 text-sm font-semibold text-white truncate">{collection.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {collection.size} {collection.size === 1 ? 'design' : 'designs'}{collection.shareToken && ' · Shared'}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </section>
+
+          <section className="mt-16">
+            <h2 className="flex items-center gap-2 border-b border-gray-400/10 pb-2 text-lg font-semibold text-white">
+              <StarFilledIcon className="h-4 w-4 text-yellow-500" /> Favorites
+            </h2>
+            {!loading && favorites.length === 0 &&
+              <p className="mt-6 text-center text-sm text-gray-300">
+                No favorites yet. Open a design and save it to your favorites.
+              </p>
+            }
+            <div className="mt-6 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+              {favorites.map((design, index) => (
+                <ImageComponent
+                  key={design.id}
+                  src={design.image}
+                  pos={POSITIONS[index % POSITIONS.length]}
+                  prompt={design.prompt}
+                  designId={design.id}
+                  actions={
+                    <Button variant="outline" onClick={() => handleUnfavorite(design.id)}>
+                      Remove from favorites
+                    </Button>
+                  }
+                />
+              ))}
+            </div>
+            {(loading || nextCursor !== null) &&
+              <div className="mt-16 flex justify-center">
+                <Button onClick={() => nextCursor !== null && loadFavorites(nextCursor)} disabled={loading}>
+                  {loading && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            }
+          </section>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+// The design page is the shareable permalink of a single generated design.
+// It renders on the server so that link previews get the image and prompt.
+
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+// Next.js's Image component is an extension of the HTML <img> element, evolved for the modern web.
+import Image from 'next/image'
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+import { AspectRatio } from "@/components/ui/aspect-ratio"
+import { Button } from "@/components/ui/button"
+import { PersonIcon } from "@radix-ui/react-icons"
+
+// Logo, Bg, CopyLinkButton, StencilDownload, PrintExport and DownloadButton are custom components
+import Logo from "@/components/logos/logo"
+import Bg from '@/components/bg/bg';
+import CopyLinkButton from "@/components/image/copy-link-button"
+import StencilDownload from "@/components/image/stencil-download"
+import PrintExport from "@/components/image/print-export"
+import { DownloadButton } from "@/components/image/image-component"
+
+import { getDesign } from '@/lib/history'
+import { STYLE_PRESETS } from '@/lib/styles'
+
+// Designs can be deleted by their owner, so the page is never cached
+export const dynamic = 'force-dynamic'
+
+// Props Next.js passes to the page
+interface DesignPageProps {
+  params: { id: string }
+}
+
+// Showing the style's display name, falling back to its id
+const styleName = (id: string) =>
+  STYLE_PRESETS.find((preset) => preset.id === id)?.name ?? id
+
+// Building the Open Graph and Twitter metadata for the design
+export async function generateMetadata({ params }: DesignPageProps): Promise<Metadata> {
+  const design = await getDesign(params.id)
+  if (!design) {
+    return { title: 'Design not found' }
+  }
+
+  const title = `${design.prompt} – ${styleName(design.style)} tattoo idea`
+  const description = `A ${styleName(design.style).toLowerCase()} tattoo design generated with AI Tattoo Generator: "${design.prompt}".`
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      url: `/design/${design.id}`,
+      images: [{ url: design.image, alt: design.prompt }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [design.image],
+    },
+  }
+}
+
+export default async function DesignPage({ params }: DesignPageProps) {
+  const design = await getDesign(params.id)
+  if (!design) {
+    notFound()
+  }
+
+  // Parameters worth showing to an artist, skipping unset ones
+  const details = [
+    ['Style', styleName(design.style)],
+    ['Aspect ratio', design.params.aspectRatio],
+    ['Negative prompt', design.params.negativePrompt],
+    ['Seed', design.params.seed],
+    ['Guidance scale', design.params.guidanceScale],
+    ['Inference steps', design.params.inferenceSteps],
+    ['Created', new Date(design.createdAt).toLocaleDateString('en')],
+  ].filter(([, value]) => value !== undefined && value !== '')
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-5xl px-4 py-32 sm:py-40 grid gap-10 md:grid-cols-2">
+          <div className="overflow-hidden rounded-2xl border-2 border-white">
+            <AspectRatio ratio={4 / 5}>
+              <Image
+                alt={design.prompt}
+                width={640}
+                height={800}
+                src={design.image}
+                priority={true}
+                className="absolute inset-0 h-full w-full object-cover"
+              />
+            </AspectRatio>
+          </div>
+
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-white">{design.prompt}</h1>
+            <dl className="mt-6 space-y-2 text-sm">
+              {details.map(([label, value]) => (
+                <div key={label} className="flex gap-2">
+                  <dt className="font-semibold text-gray-300">{label}:</dt>
+                  <dd className="text-gray-400">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <div className="mt-8 flex flex-wrap gap-2">
+              <Button variant="outline" asChild>
+                <Link href={`/design/${design.id}/preview`}>
+                  <PersonIcon className="mr-2 h-4 w-4" /> Try on
+                </Link>
+              </Button>
+              <CopyLinkButton path={`/design/${design.id}`} />
+              <StencilDownload designId={design.id} />
+              <PrintExport designId={design.id} />
+              <DownloadButton src={design.image} designId={design.id} />
+            </div>
+            <p className="mt-8 text-sm text-gray-400">
+              Want your own? <Link href="/" className="underline underline-offset-2 hover:text-gray-300">Generate a tattoo idea</Link>.
+            </p>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+// The placement preview shows a design on a body part before it is inked.
+// Compositing happens in the browser, the page only looks up the design.
+
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+// Logo, Bg and PlacementPreview are custom components
+import Logo from "@/components/logos/logo"
+import Bg from '@/components/bg/bg';
+import PlacementPreview from "@/components/image/placement-preview"
+
+import { getDesign } from '@/lib/history'
+
+// Designs can be deleted by their owner, so the page is never cached
+export const dynamic = 'force-dynamic'
+
+// Props Next.js passes to the page
+interface PreviewPageProps {
+  params: { id: string }
+}
+
+export async function generateMetadata({ params }: PreviewPageProps): Promise<Metadata> {
+  const design = await getDesign(params.id)
+  return { title: design ? `Preview on the body – ${design.prompt}` : 'Design not found' }
+}
+
+export default async function PreviewPage({ params }: PreviewPageProps) {
+  const design = await getDesign(params.id)
+  if (!design) {
+    notFound()
+  }
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+          <Link href={`/design/${design.id}`} className="text-sm font-semibold leading-6 text-white">
+            Back to design
+          </Link>
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-5xl px-4 py-24 sm:py-32">
+          <h1 className="mb-8 text-3xl font-bold tracking-tight text-white">Preview on the body</h1>
+          <PlacementPreview designId={design.id} src={design.image} />
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+// The gallery page shows the designs the community published and a moderator approved.
+// Designs can be sorted by recency or likes, filtered by style and tag, and liked.
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDownIcon, Cross2Icon, UpdateIcon } from "@radix-ui/react-icons"
+
+// Logo, ImageComponent, Bg, UserMenu, LikeButton are custom components
+import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import Bg from '@/components/bg/bg';
+import UserMenu from '@/components/auth/user-menu';
+import LikeButton from '@/components/gallery/like-button';
+
+import { readApiError } from '@/lib/errors';
+import type { GallerySort, PublicGalleryItem } from '@/lib/gallery';
+
+// StyleOption is a style preset as listed by /api/styles
+interface StyleOption {
+  id: string;
+  name: string;
+}
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
+// Labels of the sort orders
+const SORTS: { id: GallerySort; name: string }[] = [
+  { id: 'newest', name: 'Newest' },
+  { id: 'popular', name: 'Most liked' },
+];
+
+export default function Gallery() {
+
+  // items holds the loaded designs, nextCursor where the next page starts
+  const [items, setItems] = useState<PublicGalleryItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The listing filters; an empty style or tag shows everything
+  const [sort, setSort] = useState<GallerySort>('newest');
+  const [style, setStyle] = useState('');
+  const [tag, setTag] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [styles, setStyles] = useState<StyleOption[]>([]);
+
+  useEffect(() => {
+    fetch('/api/styles')
+      .then((response) => response.json())
+      .then((data: { styles: StyleOption[] }) => setStyles(data.styles))
+      .catch((error) => console.log('There was a problem loading styles: ' + error.message));
+  }, []);
+
+  // Function to load one page of the gallery, appending it to what is already shown
+  const loadPage = useCallback(async (cursor: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ sort, cursor: String(cursor) });
+      if (style) query.set('style', style);
+      if (tag) query.set('tag', tag);
+
+      const response = await fetch(`/api/gallery?${query}`);
+      if (!response.ok) {
+        setError((await readApiError(response)).message);
+        return;
+      }
+      const page = await response.json();
+      setItems((current) => cursor === 0 ? page.items : [...current, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem loading the gallery: ' + error.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [sort, style, tag]);
+
+  // Reloading from the first page whenever a filter changes
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  // Function to filter by a tag, from the input or a tag on a design
+  const applyTag = (value: string) => {
+    setTagInput(value);
+    setTag(value.trim());
+  };
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+          <UserMenu />
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-7xl px-4 py-32 sm:py-40">
+          <h1 className="text-4xl font-bold tracking-tight text-white text-center">
+            Community gallery
+          </h1>
+
+          <div className="mt-8 flex flex-wrap items-center justify-center gap-2">
+            {SORTS.map((option) => (
+              <Button key={option.id} variant={sort === option.id ? 'default' : 'outline'} size="sm" onClick={() => setSort(option.id)}>
+                {option.name}
+              </Button>
+            ))}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  Style: {styles.find((option) => option.id === style)?.name ?? 'Any'}
+                  <ChevronDownIcon className="ml-2 h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="w-56 text-left">
+                <DropdownMenuLabel>Tattoo style</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup value={style} onValueChange={setStyle}>
+                  <DropdownMenuRadioItem value="">Any</DropdownMenuRadioItem>
+                  {styles.map((option) => (
+                    <DropdownMenuRadioItem key={option.id} value={option.id}>{option.name}</DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <form className="flex items-center gap-1" onSubmit={(event) => { event.preventDefault(); applyTag(tagInput); }}>
+              <Input className="h-8 w-36 text-xs" value={tagInput} onChange={(event) => setTagInput(event.target.value)} placeholder="Filter by tag" />
+              {tag &&
+                <Button type="button" variant="ghost" size="sm" onClick={() => applyTag('')} aria-label="Clear tag">
+                  <Cross2Icon className="h-4 w-4" />
+                </Button>
+              }
+            </form>
+          </div>
+
+          <p className="text-sm text-red-600 pt-2 text-center">
+            {error}
+          </p>
+
+          {!loading && items.length === 0 &&
+            <p className="mt-8 text-center text-gray-300">
+              No designs here yet. <Link href="/history" className="underline underline-offset-2">Publish one of yours</Link>.
+            </p>
+          }
+
+          <div className="mt-10 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+            {items.map((item, index) => (
+              <div key={item.id} className="flex flex-col items-center gap-2">
+                <ImageComponent
+                  src={item.image}
+                  pos={POSITIONS[index % POSITIONS.length]}
+                  prompt={item.prompt}
+                  designId={item.id}
+                />
+                <div className="flex w-44 items-center justify-between gap-2 sm:w-72">
+                  <p className="text-xs text-gray-400 truncate">
+                    {item.authorName ?? 'Anonymous'} · {styles.find((option) => option.id === item.style)?.name ?? item.style}
+                  </p>
+                  <LikeButton id={item.id} likes={item.likes} onError={setError} />
+                </div>
+                {item.tags.length > 0 &&
+                  <div className="flex w-44 flex-wrap gap-1 sm:w-72">
+                    {item.tags.map((itemTag) => (
+                      <button key={itemTag} type="button" onClick={() => applyTag(itemTag)} className="rounded-full border border-gray-400/20 px-2 text-xs text-gray-300 hover:text-white">
+                        #{itemTag}
+                      </button>
+                    ))}
+                  </div>
+                }
+              </div>
+            ))}
+          </div>
+
+          {(loading || nextCursor !== null) &&
+            <div className="mt-16 flex justify-center">
+              <Button onClick={() => nextCursor !== null && loadPage(nextCursor)} disabled={loading}>
+                {loading && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          }
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+// The history page lists the designs this browser, or the signed-in user, generated before, newest first.
+// Each design can be opened, downloaded or removed from the history.
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+import { Button } from "@/components/ui/button"
+import { Skeleton } from '@/components/ui/skeleton';
+import { TrashIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+// Logo, ImageComponent, Bg, UserMenu, PublishDialog are custom components
+import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import Bg from '@/components/bg/bg';
+import UserMenu from '@/components/auth/user-menu';
+import PublishDialog from '@/components/gallery/publish-dialog';
+
+// designId builds the permalink id of a single output
+import { designId } from '@/lib/designs';
+import { readApiError } from '@/lib/errors';
+
+// HistoryEntry is a past generation as returned by /api/history
+interface HistoryEntry {
+  id: string;
+  prompt: string;
+  style: string;
+  status: string;
+  output: string[] | null;
+  createdAt: number;
+}
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
+export default function History() {
+
+  // entries holds the loaded history, nextCursor where the next page starts
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Function to load one page of history, appending it to what is already shown
+  const loadPage = useCallback(async (cursor: number) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/history?cursor=${cursor}`);
+      if (!response.ok) {
+        setError((await readApiError(response)).message);
+        return;
+      }
+      const page = await response.json();
+      setEntries((current) => cursor === 0 ? page.entries : [...current, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem loading your history: ' + error.message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  // Function to remove an entry from the history
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/history/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      setError((await readApiError(response)).message);
+      return;
+    }
+    setEntries((current) => current.filter((entry) => entry.id !== id));
+  };
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+          <UserMenu />
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-7xl px-4 py-32 sm:py-40">
+          <h1 className="text-4xl font-bold tracking-tight text-white text-center">
+            Your designs
+          </h1>
+          <p className="text-sm text-red-600 pt-2 text-center">
+            {error}
+          </p>
+
+          {!loading && entries.length === 0 &&
+            <p className="mt-8 text-center text-gray-300">
+              Nothing here yet. <Link href="/" className="underline underline-offset-2">Generate your first design</Link>.
+            </p>
+          }
+
+          {entries.map((entry) => (
+            <section key={entry.id} className="mt-16">
+              <div className="flex items-baseline justify-between gap-4 border-b border-gray-400/10 pb-2">
+                <h2 className="text-lg font-semibold text-white truncate">{entry.prompt}</h2>
+                <p className="text-xs text-gray-400 flex-none">
+                  {entry.style} · {new Date(entry.createdAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="mt-6 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+                {entry.output
+                  ? entry.output.slice().reverse().map((src, index, outputs) => (
+                    <ImageComponent
+                      key={src}
+                      src={src}
+                      pos={POSITIONS[index % POSITIONS.length]}
+                      title={`${index + 1}`}
+                      prompt={entry.prompt}
+                      designId={designId(entry.id, outputs.length - 1 - index)}
+                      actions={
+                        <>
+                          <PublishDialog designId={designId(entry.id, outputs.length - 1 - index)} />
+                          <Button variant="outline" onClick={() => handleDelete(entry.id)}>
+                            <TrashIcon className="mr-2 h-4 w-4" /> Delete
+                          </Button>
+                        </>
+                      }
+                    />
+                  ))
+                  : <Skeleton className="relative aspect-[9/10] w-44 flex items-center justify-center overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl">
+                    <span className="text-sm text-gray-300">Still generating...</span>
+                  </Skeleton>
+                }
+              </div>
+            </section>
+          ))}
+
+          {(loading || nextCursor !== null) &&
+            <div className="mt-16 flex justify-center">
+              <Button onClick={() => nextCursor !== null && loadPage(nextCursor)} disabled={loading}>
+                {loading && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          }
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -19,6 +19,8 @@ const font = Proza_Libre({
 
 // Setting up the metadata
 export const metadata: Metadata = {
+  // Base for relative URLs in metadata, such as Open Graph images
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL ?? 'https://www.tattooideas.io'),
   title: 'AI Tattoo Generator',
   description: 'Discover the art of the future with AI Tattoo Generator, your personal artist for digitally crafted, bespoke tattoo designs.',
 }
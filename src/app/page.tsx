@@ -1,5 +1,4 @@
 // The following code is written in TypeScript and uses React hooks for state management.
-// It also uses the Next.js Image component for optimized image handling.
 // The main functionality of the code is to take a user's input, send it to an API for processing,
 // and then display the results. The results are images generated based on the user's input.
 // The code also handles various states of the application, such as loading, error, and success states.
@@ -9,52 +8,109 @@
 
 // Importing necessary libraries and components
 // useState is a Hook that lets you add React state to function components
-import { JSX, SVGProps, useState } from 'react';
-
-// Next.js's Image component is an extension of the HTML <img> element, evolved for the modern web.
-import Image from 'next/image'
+import { JSX, SVGProps, useEffect, useRef, useState } from 'react';
 
 // Button, Label, Input, Skeleton are custom UI components
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { Skeleton } from '@/components/ui/skeleton';
 import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from "@/components/ui/dialog"
-import { AspectRatio } from "@/components/ui/aspect-ratio"
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Progress } from "@/components/ui/progress"
 
 
 // ReloadIcon is an icon component
-import { DownloadIcon, UpdateIcon } from "@radix-ui/react-icons"
+import { ChevronDownIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
 
-// Logo, Dialog, Bg are custom components
+// Logo, ImageComponent, Bg, UserMenu are custom components
 import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import ReferenceUpload from "@/components/image/reference-upload"
+import InpaintEditor from "@/components/image/inpaint-editor"
+import VariationActions from "@/components/image/variation-actions"
+import GalleryPicks from "@/components/gallery/gallery-picks"
+import PublishDialog from "@/components/gallery/publish-dialog"
+import BatchInput, { BatchForm, DEFAULT_BATCH_FORM, toBatchRequest } from "@/components/batch/batch-input"
+import BatchResults from "@/components/batch/batch-results"
+import UserMenu from "@/components/auth/user-menu"
+import CreditsIndicator from "@/components/credits/credits-indicator"
 
 // Bars3Icon, XMarkIcon are icon components
 import { Bars3Icon, XMarkIcon } from '@heroicons/react/24/outline'
 import Bg from '@/components/bg/bg';
 
+// PredictionEvent is the payload pushed by the prediction status stream
+import { describeStatus, PredictionEvent } from '@/lib/progress';
+
+// designId builds the permalink id of a single output
+import { designId } from '@/lib/designs';
+
+// Generation parameter bounds shared with the API route
+import { ASPECT_RATIOS, AspectRatioKey, DEFAULT_GENERATION_PARAMS, DEFAULT_PROMPT_STRENGTH, GENERATION_LIMITS } from '@/lib/generation';
+
+// Credits parses the remaining balance from the X-RateLimit-* headers
+import { Credits, parseCreditHeaders } from '@/lib/credits';
+import { ApiErrorBody, readApiError } from '@/lib/errors';
+
+// BatchCell is one prompt of a batch as returned by /api/batch
+import type { BatchCell } from '@/lib/batch';
 
-// sleep is a utility function that pauses execution for a specified time
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
 const currentYear = new Date().getFullYear();
 
 // Prediction is an interface that defines the shape of prediction data
 interface Prediction {
-  output: string[];
+  output: string[] | null;
   status: string;
   id: string;
-  detail?: string;
+  error?: string | null;
+  queue_position?: number | null;
+}
+
+// StyleOption is a style preset as listed by /api/styles
+interface StyleOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+// AdvancedOptions holds the raw values of the advanced options form
+interface AdvancedOptions {
+  negativePrompt: string;
+  seed: string;
+  numOutputs: string;
+  guidanceScale: string;
+  inferenceSteps: string;
+  aspectRatio: AspectRatioKey;
+  promptStrength: string;
 }
 
+// Initial values of the advanced options form
+const DEFAULT_ADVANCED_OPTIONS: AdvancedOptions = {
+  negativePrompt: '',
+  seed: '',
+  numOutputs: String(DEFAULT_GENERATION_PARAMS.numOutputs),
+  guidanceScale: String(DEFAULT_GENERATION_PARAMS.guidanceScale),
+  inferenceSteps: String(DEFAULT_GENERATION_PARAMS.inferenceSteps),
+  aspectRatio: DEFAULT_GENERATION_PARAMS.aspectRatio,
+  promptStrength: String(DEFAULT_PROMPT_STRENGTH),
+};
+
+// Card tilt for each position in the results grid
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
 // Main function component
 export default function Home() {
 
@@ -68,14 +124,187 @@ export default function Home() {
   const [prediction, setPrediction] = useState<Prediction | null>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // cacheHit is set when the server reused an identical earlier run instead of starting a new one
+  const [cacheHit, setCacheHit] = useState(false);
+
+  // advanced holds the advanced options form, outputCount the number of images requested
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [advanced, setAdvanced] = useState<AdvancedOptions>(DEFAULT_ADVANCED_OPTIONS);
+  const [outputCount, setOutputCount] = useState(DEFAULT_GENERATION_PARAMS.numOutputs);
+
+  // batchMode switches the prompt input to several prompts, batchCells holds the prompts of the running batch
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchForm, setBatchForm] = useState<BatchForm>(DEFAULT_BATCH_FORM);
+  const [batchCells, setBatchCells] = useState<BatchCell[] | null>(null);
+
+  // referenceImage holds an uploaded image as a data URL, which switches to image-to-image
+  const [referenceImage, setReferenceImage] = useState<string | null>(null);
+
+  // styles holds the presets offered by the server, style the selected preset id
+  const [styles, setStyles] = useState<StyleOption[]>([]);
+  const [style, setStyle] = useState<string | undefined>(undefined);
+
+  // Loading the style presets once on mount
+  useEffect(() => {
+    fetch('/api/styles')
+      .then((response) => response.json())
+      .then((data: { styles: StyleOption[]; defaultStyle: string }) => {
+        setStyles(data.styles);
+        setStyle((current) => current ?? data.defaultStyle);
+      })
+      .catch((error) => console.log('There was a problem loading styles: ' + error.message));
+  }, []);
+
+  // credits holds the caller's remaining balance, read from the X-RateLimit-* headers
+  const [credits, setCredits] = useState<Credits | null>(null);
+
+  // Function to reload the balance after a run was started or canceled elsewhere
+  const refreshCredits = () => {
+    fetch('/api/quota')
+      .then((response) => setCredits(parseCreditHeaders(response.headers)))
+      .catch((error) => console.log('There was a problem loading credits: ' + error.message));
+  };
+
+  // Loading the balance once on mount
+  useEffect(refreshCredits, []);
+
+  // streamRef holds the open status stream so a cancel can close it
+  const streamRef = useRef<EventSource | null>(null);
+
   // Function to handle input change and set message state
   const handleInputChange = (event: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => {
     setMessage(event.target.value);
   };
 
-  // Function to handle button click and perform translation
-  const handleButtonClick = async () => {
+  // Function to update a single advanced option
+  const handleAdvancedChange = (name: keyof AdvancedOptions) =>
+    (event: React.ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => {
+      setAdvanced({ ...advanced, [name]: event.target.value });
+    };
+
+  // Function to show an API error, worded by its code
+  const showApiError = (apiError: ApiErrorBody['error']) => {
+    switch (apiError.code) {
+      case 'invalid_request':
+      case 'not_found':
+      case 'moderation_blocked':
+      case 'quota_exceeded':
+        // These messages are written for people, so they are shown as they are
+        setError(apiError.message);
+        break;
+      case 'rate_limited':
+        setError(apiError.retryAfter
+          ? `${apiError.message} You can try again in ${apiError.retryAfter} seconds.`
+          : apiError.message);
+        break;
+      case 'upstream_error':
+        setError('The image service is having trouble right now. Please try again in a moment.');
+        break;
+      default:
+        console.log('There was a problem on the server: ' + apiError.message);
+        setError('Something went wrong on our side. Please try again.');
+    }
+  };
+
+  // Function to follow a started prediction through the status stream
+  const trackPrediction = (prediction: Prediction) => {
+    setPredictionOn(true);
+    setPrediction(prediction);
+    setProgress(0);
+
+    // Subscribing to the status stream for this prediction
+    const source = new EventSource("/api/predictionStream" + "/" + prediction.id);
+    streamRef.current = source;
+
+    source.onmessage = (event) => {
+      const update: PredictionEvent = JSON.parse(event.data);
+
+      // The stream reports upstream errors in the error envelope
+      if ('error' in update) {
+        source.close();
+        showApiError(update.error);
+        setPredictionOn(false);
+        return;
+      }
+
+      setPrediction(update.prediction);
+      setProgress(update.progress);
+
+      if (update.prediction.status === "failed") {
+        setError(update.prediction.error ?? 'The prediction failed. Please try again.');
+      }
+
+      if (
+        update.prediction.status === "succeeded" ||
+        update.prediction.status === "failed" ||
+        update.prediction.status === "canceled"
+      ) {
+        source.close();
+        setPredictionOn(false);
+      }
+    };
+
+    // Closing the stream instead of letting EventSource reconnect forever
+    source.onerror = () => {
+      source.close();
+      setError('Lost connection to the server. Please try again.');
+      setPredictionOn(false);
+    };
+  };
+
+  // Function to read the generation parameters shared by single and batch runs from the form
+  const generationParams = () => ({
+    style,
+    negativePrompt: advanced.negativePrompt || undefined,
+    seed: advanced.seed === '' ? undefined : Number(advanced.seed),
+    numOutputs: Number(advanced.numOutputs),
+    guidanceScale: Number(advanced.guidanceScale),
+    inferenceSteps: Number(advanced.inferenceSteps),
+    aspectRatio: advanced.aspectRatio,
+    image: referenceImage ?? undefined,
+    promptStrength: referenceImage ? Number(advanced.promptStrength) : undefined,
+  });
+
+  // Function to start a batch, one prediction per prompt, and show its cells
+  const handleBatchClick = async () => {
+    setError(null);
+    setCacheHit(false);
+    setPrediction(null);
+    setPredictionOn(true);
+    setOutputCount(Number(advanced.numOutputs) || DEFAULT_GENERATION_PARAMS.numOutputs);
+    try {
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({ ...toBatchRequest(batchForm), ...generationParams() }),
+      });
+      setCredits((current) => parseCreditHeaders(response.headers) ?? current);
+      if (!response.ok) {
+        showApiError(await readApiError(response));
+        return;
+      }
+      setBatchCells((await response.json()).cells);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.log('There was a problem with the batch operation: ' + error.message);
+      }
+    } finally {
+      setPredictionOn(false);
+    }
+  };
+
+  // Function to handle button click and perform translation; regenerate skips the result cache
+  const handleButtonClick = async (regenerate = false) => {
+    if (batchMode) {
+      return handleBatchClick();
+    }
+
     if (message) {
+      setBatchCells(null);
+      setCacheHit(false);
 
       setError(null);
       if (message.length > 2000) {
@@ -85,9 +314,6 @@ export default function Home() {
 
       setPredictionOn(true);
 
-      const prompt = 'in the style of TOK,' + message + ' as a tattoo';
-
-
       // Adding message as a param
       const apiRoute = `/api/prediction`;
 
@@ -98,67 +324,29 @@ export default function Home() {
           accept: 'application/json',
           'content-type': 'application/json',
         },
-        body: JSON.stringify({ message: prompt }),
+        body: JSON.stringify({ message, ...generationParams(), regenerate }),
       };
+      setOutputCount(Number(advanced.numOutputs) || DEFAULT_GENERATION_PARAMS.numOutputs);
       try {
         // Fetching response from API
         let response = await fetch(apiRoute, options);
+        setCredits((current) => parseCreditHeaders(response.headers) ?? current);
         if (!response.ok) {
-          if (response.status === 429) {
-            setError('You have reached your request limit of 5 for the hour. Try again after sometime.');
-            setPredictionOn(false);
-          } else {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-
-        }
-        // Parsing response data
-        let prediction = await response.json();
-
-
-        if (response.status !== 201) {
-          setError(prediction.detail);
+          // Showing the error returned by the server, worded by its code
+          showApiError(await readApiError(response));
           setPredictionOn(false);
           return;
         }
+        // Noting when the server returned an identical earlier run at no cost
+        setCacheHit(response.headers.get('X-Cache') === 'HIT');
+        // Parsing response data
+        let prediction = await response.json();
 
 
 
         if (!!prediction) {
-          // Setting translated data state
-          setPrediction(prediction);
-          // Calling text to speech function
-          let predictionsIdUrl = "/api/predictionState" + "/" + prediction.id;
-
-          let progressValue = 1;
-          setProgress(0);
-          const progressInterval = setInterval(() => {
-            if (progressValue <= 100) {
-              setProgress(progressValue++);
-            } else {
-              clearInterval(progressInterval);
-            }
-          }, 750);
-
-          while (
-            prediction.status !== "succeeded" &&
-            prediction.status !== "failed"
-          ) {
-            await sleep(2000);
-            response = await fetch(predictionsIdUrl);
-            prediction = await response.json();
-            if (response.status !== 200) {
-              setError(prediction.detail);
-              return;
-            }
-            setPrediction(prediction);
-            if (prediction.status === "succeeded") {
-              clearInterval(progressInterval);
-              setProgress(100);
-              setPredictionOn(false);
-            }
-
-          }
+          // Following the prediction until it settles
+          trackPrediction(prediction);
 
         } else {
           setPrediction(null);
@@ -178,22 +366,30 @@ export default function Home() {
     }
   };
 
-  const downloadImage = async (src: string) => {
-    // Adjust for relative path
-    if (!src.startsWith('http')) {
-      src = `${window.location.origin}${src}`;
+  // Function to cancel the running prediction and stop listening for updates
+  const handleCancelClick = async () => {
+    if (!prediction) {
+      return;
     }
 
-    const response = await fetch(src);
-    const blob = await response.blob();
-    const url = window.URL.createObjectURL(blob);
+    streamRef.current?.close();
+    streamRef.current = null;
+    setPredictionOn(false);
+    setProgress(0);
 
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', '');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    try {
+      const response = await fetch("/api/prediction" + "/" + prediction.id, { method: 'DELETE' });
+      if (!response.ok) {
+        showApiError(await readApiError(response));
+        return;
+      }
+      setPrediction(await response.json());
+      refreshCredits();
+    } catch (error) {
+      if (error instanceof Error) {
+        console.log('There was a problem with the cancel operation: ' + error.message);
+      }
+    }
   };
 
   const footer = [
@@ -214,47 +410,6 @@ export default function Home() {
 
   ]
 
-  // ImageComponent is a React functional component. It takes src, pos, title, and prompt as props and returns an Image component.
-  const ImageComponent = ({ src, pos, title, prompt }: { src: string, pos: string, title?: string, prompt?: string }) => (
-    <Dialog>
-      <DialogTrigger asChild>
-        <div className={`relative aspect-[9/10] w-44 flex-none overflow-hidden rounded-xl bg-zinc-100  border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 sm:${pos} sm:hover:rotate-0`}>
-          <Image
-            alt="Predictions"
-            loading="lazy"
-            width={640}
-            height={640}
-            src={src}
-            className="absolute inset-0 h-full w-full object-cover"
-          />
-        </div>
-      </DialogTrigger>
-      <DialogContent className="sm:max-w">
-        <DialogHeader>
-          <DialogTitle>Tattoo Idea {title}</DialogTitle>
-          {prompt && <DialogDescription>
-            <span className='font-semibold'>Prompt:</span> {prompt}
-          </DialogDescription>}
-        </DialogHeader>
-        <AspectRatio ratio={4 / 5}>
-          <Image
-            alt="Predictions"
-            width={640}
-            height={640}
-            src={src}
-            priority={true}
-            className="absolute inset-0 h-full w-full object-cover"
-          />
-        </AspectRatio>
-        <DialogFooter>
-          <Button onClick={() => downloadImage(src)}>
-            <DownloadIcon className="mr-2 h-4 w-4" /> Download
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
-
-  );
 
   // Rendering component
   return (
@@ -269,6 +424,18 @@ export default function Home() {
             <span className="sr-only">AI Tattoo Generator</span>
             <Logo className="inline-block h-6 w-auto" />
           </div>
+          <div className="flex gap-x-6">
+            <Link href="/gallery" className="text-sm font-semibold leading-6 text-gray-300 hover:text-white">
+              Gallery
+            </Link>
+            <Link href="/history" className="text-sm font-semibold leading-6 text-gray-300 hover:text-white">
+              History
+            </Link>
+            <Link href="/collections" className="text-sm font-semibold leading-6 text-gray-300 hover:text-white">
+              Collections
+            </Link>
+            <UserMenu />
+          </div>
         </nav>
       </header>
 
@@ -285,37 +452,119 @@ export default function Home() {
             </p>
             <div className="mt-8 flex items-center justify-center">
               <div className="w-full max-w-lg items-center pt-8 pb-2 px-4">
-                <Input type="text" id="message" onChange={handleInputChange} placeholder="Eg.: Tiger on the horizon" />
+                {batchMode
+                  ? <BatchInput value={batchForm} onChange={setBatchForm} numOutputs={Number(advanced.numOutputs) || DEFAULT_GENERATION_PARAMS.numOutputs} />
+                  : <Input type="text" id="message" value={message} onChange={handleInputChange} placeholder="Eg.: Tiger on the horizon" />
+                }
+                <div className="pt-2">
+                  <ReferenceUpload value={referenceImage} onChange={setReferenceImage} onError={setError} disabled={predictionOn} />
+                </div>
+                {referenceImage &&
+                  <div className="flex items-center gap-2 pt-2 text-left">
+                    <Label htmlFor="promptStrength" className="flex-none">Prompt strength</Label>
+                    <Input type="number" id="promptStrength" value={advanced.promptStrength} onChange={handleAdvancedChange('promptStrength')} min={GENERATION_LIMITS.promptStrength.min} max={GENERATION_LIMITS.promptStrength.max} step={0.05} />
+                  </div>
+                }
+                <div className="flex justify-between items-center pt-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        Style: {styles.find((option) => option.id === style)?.name ?? '...'}
+                        <ChevronDownIcon className="ml-2 h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-64 text-left">
+                      <DropdownMenuLabel>Tattoo style</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuRadioGroup value={style} onValueChange={setStyle}>
+                        {styles.map((option) => (
+                          <DropdownMenuRadioItem key={option.id} value={option.id} className="flex-col items-start">
+                            <span>{option.name}</span>
+                            <span className="text-xs text-muted-foreground">{option.description}</span>
+                          </DropdownMenuRadioItem>
+                        ))}
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <div className="flex gap-4">
+                    <button type="button" onClick={() => setBatchMode(!batchMode)} className="text-xs text-gray-400 hover:text-gray-300">
+                      {batchMode ? 'Single prompt' : 'Batch'}
+                    </button>
+                    <button type="button" onClick={() => setShowAdvanced(!showAdvanced)} className="text-xs text-gray-400 hover:text-gray-300">
+                      {showAdvanced ? 'Hide advanced options' : 'Advanced options'}
+                    </button>
+                  </div>
+                </div>
+                {showAdvanced &&
+                  <div className="grid grid-cols-2 gap-4 pt-4 text-left">
+                    <div className="col-span-2 space-y-2">
+                      <Label htmlFor="negativePrompt">Negative prompt</Label>
+                      <Textarea id="negativePrompt" value={advanced.negativePrompt} onChange={handleAdvancedChange('negativePrompt')} maxLength={GENERATION_LIMITS.negativePromptLength} placeholder="Eg.: color, blurry, text" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="numOutputs">Images</Label>
+                      <Input type="number" id="numOutputs" value={advanced.numOutputs} onChange={handleAdvancedChange('numOutputs')} min={GENERATION_LIMITS.numOutputs.min} max={GENERATION_LIMITS.numOutputs.max} step={1} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="seed">Seed</Label>
+                      <Input type="number" id="seed" value={advanced.seed} onChange={handleAdvancedChange('seed')} min={GENERATION_LIMITS.seed.min} max={GENERATION_LIMITS.seed.max} step={1} placeholder="Random" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="guidanceScale">Guidance scale</Label>
+                      <Input type="number" id="guidanceScale" value={advanced.guidanceScale} onChange={handleAdvancedChange('guidanceScale')} min={GENERATION_LIMITS.guidanceScale.min} max={GENERATION_LIMITS.guidanceScale.max} step={0.5} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="inferenceSteps">Inference steps</Label>
+                      <Input type="number" id="inferenceSteps" value={advanced.inferenceSteps} onChange={handleAdvancedChange('inferenceSteps')} min={GENERATION_LIMITS.inferenceSteps.min} max={GENERATION_LIMITS.inferenceSteps.max} step={1} />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Aspect ratio</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {(Object.keys(ASPECT_RATIOS) as AspectRatioKey[]).map((ratio) => (
+                          <Button key={ratio} type="button" size="sm" variant={advanced.aspectRatio === ratio ? 'secondary' : 'outline'} onClick={() => setAdvanced({ ...advanced, aspectRatio: ratio })}>
+                            {ratio}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                }
                 <p className="text-sm text-red-600 pt-2">
                   {error}
                 </p>
-                <Button onClick={handleButtonClick} disabled={predictionOn} className='mt-4 w-full sm:w-1/3'>
+                <Button onClick={() => handleButtonClick()} disabled={predictionOn} className='mt-4 w-full sm:w-1/3'>
                   {predictionOn && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
                   Go
                 </Button>
+                {predictionOn && prediction &&
+                  <Button onClick={handleCancelClick} variant="outline" className='mt-4 sm:ml-2 w-full sm:w-1/3'>
+                    Cancel
+                  </Button>}
+                <CreditsIndicator credits={credits} />
+                {cacheHit && <p className="text-xs text-gray-500 pt-2">
+                  Same prompt, style and seed as an earlier run, so its images were reused at no cost.{' '}
+                  <button type="button" onClick={() => handleButtonClick(true)} disabled={predictionOn} className="underline disabled:opacity-50">
+                    Regenerate anyway
+                  </button>
+                </p>}
                 {predictionOn && <p className="text-sm pt-2">This may take at least 60 seconds. Please wait...
                 </p>}
+                {predictionOn && prediction && <p className="text-xs text-gray-400 pt-1 capitalize">
+                  {describeStatus(prediction)} {progress > 0 && `(${progress}%)`}
+                </p>}
 
               </div>
 
             </div>
-            {prediction && prediction.status !== "succeeded" &&
+            {prediction && predictionOn &&
 
               <div className="mt-16 sm:mt-20">
                 <div className="-my-4 flex flex-wrap  justify-center gap-3 sm:gap4 overflow-hidden py-4 sm:gap-8">
-                  <Skeleton className="relative aspect-[9/10] w-44 flex items-center justify-center h-full overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 sm:rotate-2 sm:hover:rotate-0" >
-                    <Progress value={progress} className='w-full h-full rounded-none' />
-                  </Skeleton>
-                  <Skeleton className="relative aspect-[9/10] w-44 flex items-center justify-center h-full overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 sm:-rotate-2 sm:hover:rotate-0" >
-                    <Progress value={progress} className='w-full h-full rounded-none' />
-                  </Skeleton>
-                  <Skeleton className="relative aspect-[9/10] w-44 flex items-center justify-center h-full overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 sm:rotate-2 sm:hover:rotate-0" >
-                    <Progress value={progress} className='w-full h-full rounded-none' />
-                  </Skeleton>
-                  <Skeleton className="relative aspect-[9/10] w-44 flex items-center justify-center h-full overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 sm:rotate-2 sm:hover:rotate-0" >
-                    <Progress value={progress} className='w-full h-full rounded-none' />
-                  </Skeleton>
-
+                  {POSITIONS.slice(0, outputCount).map((pos, index) => (
+                    <Skeleton key={index} className={`relative aspect-[9/10] w-44 flex items-center justify-center h-full overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 ${pos === '-rotate-2' ? 'sm:-rotate-2' : 'sm:rotate-2'} sm:hover:rotate-0`} >
+                      <Progress value={progress} className='w-full h-full rounded-none' />
+                    </Skeleton>
+                  ))}
                 </div>
               </div>
 
@@ -325,22 +574,58 @@ export default function Home() {
             {prediction && prediction.output &&
               <div className="mt-16 sm:mt-20">
                 <div className="-my-4 flex flex-wrap  justify-center gap-3 sm:gap4 overflow-hidden py-4 sm:gap-8">
-                  <ImageComponent src={prediction.output[prediction.output.length - 1]} pos='rotate-2' title='1' />
-                  <ImageComponent src={prediction.output[prediction.output.length - 2]} pos='-rotate-2' title='2' />
-                  <ImageComponent src={prediction.output[prediction.output.length - 3]} pos='rotate-2' title='3' />
-                  <ImageComponent src={prediction.output[prediction.output.length - 4]} pos='rotate-2' title='4' />
+                  {prediction.output.slice().reverse().map((src, index, outputs) => (
+                    <ImageComponent
+                      key={src}
+                      src={src}
+                      pos={POSITIONS[index % POSITIONS.length]}
+                      title={`${index + 1}`}
+                      designId={designId(prediction.id, outputs.length - 1 - index)}
+                      actions={
+                        <>
+                          <VariationActions
+                            designId={designId(prediction.id, outputs.length - 1 - index)}
+                            onStarted={(derived, count) => {
+                              setError(null);
+                              setOutputCount(count);
+                              trackPrediction(derived);
+                              refreshCredits();
+                            }}
+                            onError={setError}
+                          />
+                          <InpaintEditor
+                            src={src}
+                            designId={designId(prediction.id, outputs.length - 1 - index)}
+                            onStarted={(edit) => {
+                              setError(null);
+                              setOutputCount(DEFAULT_GENERATION_PARAMS.numOutputs);
+                              trackPrediction(edit);
+                              refreshCredits();
+                            }}
+                          />
+                          <PublishDialog designId={designId(prediction.id, outputs.length - 1 - index)} />
+                        </>
+                      }
+                    />
+                  ))}
                 </div>
               </div>
             }
 
-            {!prediction &&
+            {batchCells &&
+              <BatchResults cells={batchCells} numOutputs={outputCount} onSettled={refreshCredits} />
+            }
+
+            {!prediction && !batchCells &&
               <div className="mt-16 sm:mt-20">
                 <div className="-my-4 flex flex-wrap  justify-center gap-3 sm:gap4 overflow-hidden py-4 sm:gap-8">
-                  <ImageComponent src='/images/dog.webp' pos='rotate-2' title='1' prompt='A golden retriever portrait as a tattoo in the arm' />
-                  <ImageComponent src='/images/panda.webp' pos='-rotate-2' title='2' prompt='Panda on the arm' />
-                  <ImageComponent src='/images/tiger.webp' pos='rotate-2' title='3' prompt='Tiger on the arm' />
-                  <ImageComponent src='/images/samurai.webp' pos='rotate-2' title='4' prompt='Samurai on back' />
+                  <GalleryPicks />
                 </div>
+                <p className="mt-8 text-center text-sm">
+                  <Link href="/gallery" className="font-semibold text-gray-300 hover:text-white">
+                    Browse the community gallery <span aria-hidden="true">&rarr;</span>
+                  </Link>
+                </p>
               </div>
             }
           </div>
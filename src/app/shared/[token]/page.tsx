@@ -0,0 +1,84 @@
+// The shared collection page is the read-only view of a collection its owner shared,
+// for example with a tattoo artist. It renders on the server and only needs the secret link.
+
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+
+// Logo, ImageComponent, Bg are custom components
+import Logo from "@/components/logos/logo"
+import ImageComponent from "@/components/image/image-component"
+import Bg from '@/components/bg/bg';
+
+import { getSharedCollection } from '@/lib/collections'
+
+// Collections change and links can be revoked, so the page is never cached
+export const dynamic = 'force-dynamic'
+
+// Props Next.js passes to the page
+interface SharedCollectionPageProps {
+  params: { token: string }
+}
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2'];
+
+// Keeping shared collections out of search engines, since the link is meant for the people it was sent to
+export async function generateMetadata({ params }: SharedCollectionPageProps): Promise<Metadata> {
+  const view = await getSharedCollection(params.token)
+  return {
+    title: view ? `${view.collection.name} – tattoo ideas` : 'Collection not found',
+    robots: { index: false },
+  }
+}
+
+export default async function SharedCollectionPage({ params }: SharedCollectionPageProps) {
+  const view = await getSharedCollection(params.token)
+  if (!view) {
+    notFound()
+  }
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-7xl px-4 py-32 sm:py-40">
+          <h1 className="text-4xl font-bold tracking-tight text-white text-center">
+            {view.collection.name}
+          </h1>
+          <p className="mt-2 text-sm text-gray-400 text-center">
+            {view.designs.length} {view.designs.length === 1 ? 'design' : 'designs'} · Shared from AI Tattoo Generator
+          </p>
+
+          <div className="mt-10 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+            {view.designs.map((design, index) => (
+              <ImageComponent
+                key={design.id}
+                src={design.image}
+                pos={POSITIONS[index % POSITIONS.length]}
+                title={`${index + 1}`}
+                prompt={design.prompt}
+                designId={design.id}
+              />
+            ))}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
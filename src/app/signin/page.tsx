@@ -0,0 +1,149 @@
+// The sign-in page offers every sign-in method configured for this deployment.
+// Signing in keeps history and limits tied to the person instead of their IP address.
+
+'use client'
+
+import { useState } from 'react';
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { EnvelopeClosedIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+// Logo, Bg and useSession are custom components
+import Logo from "@/components/logos/logo"
+import Bg from '@/components/bg/bg';
+import { useSession } from '@/components/auth/use-session';
+import { readApiError } from '@/lib/errors';
+
+// Messages for the errors the sign-in routes redirect back with
+const ERRORS: Record<string, string> = {
+  expired: 'That sign-in link has expired or was already used. Please request a new one.',
+  provider: 'That sign-in method is not available.',
+  state: 'The sign-in attempt could not be verified. Please try again.',
+  oauth: 'The sign-in provider returned an error. Please try again.',
+};
+
+export default function SignIn() {
+  const session = useSession();
+  const searchParams = useSearchParams();
+  // Only returning to pages of this site after signing in
+  const requested = searchParams.get('callbackUrl') ?? '/';
+  const callbackUrl = requested.startsWith('/') && !requested.startsWith('//') ? requested : '/';
+
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(ERRORS[searchParams.get('error') ?? ''] ?? null);
+
+  const providers = session?.providers ?? [];
+  const hasEmail = providers.some((provider) => provider.type === 'email');
+  const hasDev = providers.some((provider) => provider.type === 'dev');
+
+  // Function to request a magic link, or sign straight in with the development provider
+  const signIn = async (dev: boolean) => {
+    setError(null);
+    setSending(true);
+    try {
+      const response = await fetch(dev ? '/api/auth/dev' : '/api/auth/email', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ email, callbackUrl }),
+      });
+      if (!response.ok) {
+        setError((await readApiError(response)).message);
+        return;
+      }
+      if (dev) {
+        window.location.assign(callbackUrl);
+      } else {
+        setSent(true);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem signing in: ' + error.message);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="relative min-h-screen">
+
+      <Bg className="absolute inset-0 w-full" />
+
+      <header className="absolute inset-x-0 top-0 z-50">
+        <nav className="flex items-center justify-between p-6 lg:px-8" aria-label="Global">
+          <div className="flex lg:flex-1">
+            <Link href="/">
+              <span className="sr-only">AI Tattoo Generator</span>
+              <Logo className="inline-block h-6 w-auto" />
+            </Link>
+          </div>
+        </nav>
+      </header>
+
+      <main className="relative isolate overflow-hidden pt-14">
+        <div className="mx-auto max-w-sm px-4 py-32 sm:py-40">
+          <h1 className="text-3xl font-bold tracking-tight text-white text-center">Sign in</h1>
+          <p className="mt-4 text-center text-sm text-gray-300">
+            Keep your designs and limits with you on every device.
+          </p>
+
+          {session?.user &&
+            <p className="mt-8 text-center text-gray-300">
+              You are signed in as {session.user.email ?? session.user.name}. <Link href={callbackUrl} className="underline underline-offset-2">Continue</Link>
+            </p>
+          }
+
+          {session && !session.user &&
+            <div className="mt-10 space-y-6">
+              {(hasEmail || hasDev) && !sent &&
+                <form onSubmit={(event) => { event.preventDefault(); signIn(!hasEmail); }} className="space-y-3">
+                  <Label htmlFor="email" className="text-white">Email</Label>
+                  <Input id="email" type="email" required value={email} onChange={(event) => setEmail(event.target.value)} placeholder="you@example.com" />
+                  <Button type="submit" className="w-full" disabled={sending}>
+                    {sending ? <UpdateIcon className="mr-2 h-4 w-4 animate-spin" /> : <EnvelopeClosedIcon className="mr-2 h-4 w-4" />}
+                    {hasEmail ? 'Email me a sign-in link' : 'Sign in'}
+                  </Button>
+                  {hasEmail && hasDev &&
+                    <Button type="button" variant="outline" className="w-full" disabled={sending || !email} onClick={() => signIn(true)}>
+                      Sign in without email (development)
+                    </Button>
+                  }
+                </form>
+              }
+
+              {sent &&
+                <p className="text-center text-gray-300">
+                  Check your inbox. We sent a sign-in link to {email}.
+                </p>
+              }
+
+              {providers.filter((provider) => provider.type === 'oauth').map((provider) => (
+                <Button key={provider.id} variant="outline" className="w-full" asChild>
+                  <a href={`/api/auth/oauth/${provider.id}?callbackUrl=${encodeURIComponent(callbackUrl)}`}>
+                    Continue with {provider.name}
+                  </a>
+                </Button>
+              ))}
+
+              {providers.length === 0 &&
+                <p className="text-center text-gray-300">Sign-in is not configured for this site.</p>
+              }
+            </div>
+          }
+
+          <p className="text-sm text-red-600 pt-4 text-center">
+            {error}
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
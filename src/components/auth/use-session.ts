@@ -0,0 +1,26 @@
+"use client"
+
+import * as React from "react"
+
+import type { AuthProviderInfo, User } from "@/lib/auth"
+
+// SessionState is what /api/auth/session reports about the caller
+export interface SessionState {
+  user: User | null
+  isAdmin: boolean
+  providers: AuthProviderInfo[]
+}
+
+// useSession loads the signed-in user and the available sign-in methods, null while loading
+export function useSession() {
+  const [session, setSession] = React.useState<SessionState | null>(null)
+
+  React.useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then(setSession)
+      .catch(() => setSession({ user: null, isAdmin: false, providers: [] }))
+  }, [])
+
+  return session
+}
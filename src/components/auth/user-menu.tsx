@@ -0,0 +1,47 @@
+"use client"
+
+import * as React from "react"
+
+// Next.js's Link component enables client-side navigation between routes
+import Link from "next/link"
+
+import { useSession } from "@/components/auth/use-session"
+
+// UserMenu shows who is signed in with a sign-out link, or a sign-in link
+const UserMenu = () => {
+  const session = useSession()
+
+  // Reloading after signing out, so every view drops the user's data
+  const handleSignOut = async () => {
+    await fetch('/api/auth/signout', { method: 'POST' })
+    window.location.assign('/')
+  }
+
+  if (!session) {
+    return null
+  }
+
+  if (!session.user) {
+    return (
+      <Link href="/signin" className="text-sm font-semibold leading-6 text-gray-300 hover:text-white">
+        Sign in
+      </Link>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-x-4 text-sm leading-6">
+      {session.isAdmin &&
+        <Link href="/admin/gallery" className="font-semibold text-gray-300 hover:text-white">
+          Review
+        </Link>
+      }
+      <span className="hidden text-gray-400 sm:inline">{session.user.name ?? session.user.email}</span>
+      <button onClick={handleSignOut} className="font-semibold text-gray-300 hover:text-white">
+        Sign out
+      </button>
+    </div>
+  )
+}
+
+export default UserMenu
@@ -0,0 +1,106 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+
+import { BATCH_LIMITS, parseBatchPrompts, templateVariables } from "@/lib/batch"
+import { ApiError } from "@/lib/errors"
+
+// BatchForm holds the raw values of the batch form, in either of its modes
+export interface BatchForm {
+  mode: 'list' | 'matrix'
+  // One prompt per line
+  prompts: string
+  // Prompt with {variables}, and each variable's comma separated values
+  template: string
+  values: Record<string, string>
+}
+
+// Initial values of the batch form
+export const DEFAULT_BATCH_FORM: BatchForm = {
+  mode: 'list',
+  prompts: '',
+  template: '',
+  values: {},
+}
+
+// Building the prompts part of a /api/batch request body from the form
+export function toBatchRequest(form: BatchForm) {
+  if (form.mode === 'list') {
+    return { prompts: form.prompts.split('\n') }
+  }
+  const variables: Record<string, string[]> = {}
+  for (const name of templateVariables(form.template)) {
+    variables[name] = (form.values[name] ?? '').split(',')
+  }
+  return { template: form.template, variables }
+}
+
+interface BatchInputProps {
+  value: BatchForm
+  onChange: (value: BatchForm) => void
+  // Images per prompt, to show what the batch costs
+  numOutputs: number
+}
+
+// BatchInput edits several prompts at once, as a list or as a template multiplied out by its variables
+const BatchInput = ({ value, onChange, numOutputs }: BatchInputProps) => {
+  const variables = templateVariables(value.template)
+
+  // Expanding the batch as the server will, to preview its size or explain what is wrong
+  let preview: string
+  try {
+    const count = parseBatchPrompts(toBatchRequest(value)).length
+    preview = `${count} ${count === 1 ? 'prompt' : 'prompts'} · ${count * numOutputs} credits`
+  } catch (error) {
+    preview = error instanceof ApiError ? error.message : ''
+  }
+
+  return (
+    <div className="space-y-2 text-left">
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant={value.mode === 'list' ? 'secondary' : 'outline'} onClick={() => onChange({ ...value, mode: 'list' })}>
+          Prompt list
+        </Button>
+        <Button type="button" size="sm" variant={value.mode === 'matrix' ? 'secondary' : 'outline'} onClick={() => onChange({ ...value, mode: 'matrix' })}>
+          Template
+        </Button>
+      </div>
+      {value.mode === 'list'
+        ? <Textarea
+          id="batchPrompts"
+          value={value.prompts}
+          onChange={(event) => onChange({ ...value, prompts: event.target.value })}
+          rows={5}
+          placeholder={`One prompt per line, up to ${BATCH_LIMITS.prompts}\nEg.: Tiger on the horizon\nWolf howling at the moon`}
+        />
+        : <>
+          <Input
+            id="batchTemplate"
+            value={value.template}
+            onChange={(event) => onChange({ ...value, template: event.target.value })}
+            placeholder="Eg.: {animal} in {style} style"
+          />
+          {variables.map((name) => (
+            <div key={name} className="flex items-center gap-2">
+              <Label htmlFor={`batchValues-${name}`} className="w-24 flex-none truncate">{name}</Label>
+              <Input
+                id={`batchValues-${name}`}
+                value={value.values[name] ?? ''}
+                onChange={(event) => onChange({ ...value, values: { ...value.values, [name]: event.target.value } })}
+                placeholder="Comma separated, eg.: wolf, fox, owl"
+              />
+            </div>
+          ))}
+        </>
+      }
+      <p className="text-xs text-gray-400">{preview}</p>
+    </div>
+  )
+}
+
+export default BatchInput
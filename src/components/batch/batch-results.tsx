@@ -0,0 +1,168 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+
+import ImageComponent from "@/components/image/image-component"
+
+import type { BatchCell } from "@/lib/batch"
+import { designId } from "@/lib/designs"
+import { readApiError } from "@/lib/errors"
+import { describeStatus, PredictionEvent } from "@/lib/progress"
+import type { Prediction } from "@/lib/providers"
+
+// Card tilt for each position in a row of results
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2']
+
+// Statuses after which a prediction no longer changes
+const TERMINAL = ['succeeded', 'failed', 'canceled']
+
+interface BatchCellViewProps {
+  cell: BatchCell
+  // Images each prediction was asked for, to size the placeholders
+  numOutputs: number
+  // Called once the cell's prediction settles, or is canceled
+  onSettled: () => void
+}
+
+// BatchCellView follows one prompt of a batch through the status stream and shows its outputs
+const BatchCellView = ({ cell, numOutputs, onSettled }: BatchCellViewProps) => {
+  const [prediction, setPrediction] = React.useState<Prediction | null>(cell.prediction)
+  const [progress, setProgress] = React.useState(0)
+  const [error, setError] = React.useState<string | null>(cell.error?.message ?? null)
+  const streamRef = React.useRef<EventSource | null>(null)
+
+  // Keeping the latest callback without reopening the stream when it changes
+  const onSettledRef = React.useRef(onSettled)
+  onSettledRef.current = onSettled
+
+  const id = cell.prediction?.id
+  React.useEffect(() => {
+    if (!id) {
+      return
+    }
+    const source = new EventSource(`/api/predictionStream/${id}`)
+    streamRef.current = source
+
+    source.onmessage = (event) => {
+      const update: PredictionEvent = JSON.parse(event.data)
+      if ('error' in update) {
+        source.close()
+        setError(update.error.message)
+        return
+      }
+      setPrediction(update.prediction)
+      setProgress(update.progress)
+      if (TERMINAL.includes(update.prediction.status)) {
+        source.close()
+        if (update.prediction.status === 'failed') {
+          setError(update.prediction.error ?? 'The prediction failed.')
+        }
+        onSettledRef.current()
+      }
+    }
+
+    // Closing the stream instead of letting EventSource reconnect forever
+    source.onerror = () => {
+      source.close()
+      setError('Lost connection to the server.')
+    }
+
+    return () => source.close()
+  }, [id])
+
+  // Function to cancel this cell's prediction, refunding its credits
+  const handleCancel = async () => {
+    if (!prediction) {
+      return
+    }
+    streamRef.current?.close()
+    const response = await fetch(`/api/prediction/${prediction.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError((await readApiError(response)).message)
+      return
+    }
+    setPrediction(await response.json())
+    onSettledRef.current()
+  }
+
+  const running = !!prediction && !TERMINAL.includes(prediction.status) && !error
+
+  return (
+    <section className="mt-10">
+      <div className="flex items-baseline justify-between gap-4 border-b border-gray-400/10 pb-2">
+        <h3 className="text-base font-semibold text-white truncate">{cell.prompt}</h3>
+        <div className="flex flex-none items-center gap-2">
+          <p className="text-xs text-gray-400 capitalize">
+            {error ? 'Not generated' : prediction && describeStatus(prediction)} {running && progress > 0 && `(${progress}%)`}
+          </p>
+          {running &&
+            <Button variant="ghost" size="sm" onClick={handleCancel}>Cancel</Button>
+          }
+        </div>
+      </div>
+      {error && <p className="pt-2 text-sm text-red-600">{error}</p>}
+      <div className="mt-4 -my-4 flex flex-wrap justify-center gap-3 overflow-hidden py-4 sm:gap-8">
+        {prediction?.output
+          ? prediction.output.slice().reverse().map((src, index, outputs) => (
+            <ImageComponent
+              key={src}
+              src={src}
+              pos={POSITIONS[index % POSITIONS.length]}
+              title={`${index + 1}`}
+              prompt={cell.prompt}
+              designId={designId(prediction.id, outputs.length - 1 - index)}
+            />
+          ))
+          : running && POSITIONS.slice(0, numOutputs).map((pos, index) => (
+            <Skeleton key={index} className={`relative aspect-[9/10] w-44 flex items-center justify-center overflow-hidden rounded-xl border-2 border-white sm:w-72 sm:rounded-2xl sm:${pos}`}>
+              <Progress value={progress} className='w-full h-full rounded-none' />
+            </Skeleton>
+          ))
+        }
+      </div>
+    </section>
+  )
+}
+
+interface BatchResultsProps {
+  cells: BatchCell[]
+  numOutputs: number
+  onSettled: () => void
+}
+
+// BatchResults shows every prompt of a batch with its own status, grouped by the first template variable
+const BatchResults = ({ cells, numOutputs, onSettled }: BatchResultsProps) => {
+  // Grouping matrix cells by the value of their first variable; a plain list is one group
+  const groups: { label: string | null; cells: BatchCell[] }[] = []
+  for (const cell of cells) {
+    const [name] = Object.keys(cell.values ?? {})
+    const label = name ? `${name}: ${cell.values![name]}` : null
+    const group = groups.find((group) => group.label === label)
+    if (group) {
+      group.cells.push(cell)
+    } else {
+      groups.push({ label, cells: [cell] })
+    }
+  }
+
+  return (
+    <div className="mx-auto mt-16 max-w-7xl px-4 sm:mt-20">
+      {groups.map((group) => (
+        <div key={group.label ?? ''} className="mt-12 first:mt-0">
+          {group.label &&
+            <h2 className="text-lg font-semibold text-white">{group.label}</h2>
+          }
+          {group.cells.map((cell, index) => (
+            <BatchCellView key={cell.prediction?.id ?? index} cell={cell} numOutputs={numOutputs} onSettled={onSettled} />
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default BatchResults
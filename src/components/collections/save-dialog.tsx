@@ -0,0 +1,150 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { BookmarkIcon, CheckIcon, PlusIcon, StarFilledIcon, StarIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+import { readApiError } from "@/lib/errors"
+import type { CollectionSummary } from "@/lib/collections"
+
+// SaveDialog adds a design to the caller's favorites and collections, or takes it out again
+const SaveDialog = ({ designId }: { designId: string }) => {
+  const [favorite, setFavorite] = React.useState(false)
+  const [collections, setCollections] = React.useState<CollectionSummary[] | null>(null)
+  const [containing, setContaining] = React.useState<string[]>([])
+  const [name, setName] = React.useState('')
+  const [pending, setPending] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Loading where the design is saved each time the dialog opens
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) {
+      return
+    }
+    setError(null)
+    try {
+      const [favoriteResponse, collectionsResponse] = await Promise.all([
+        fetch(`/api/favorites/${designId}`),
+        fetch(`/api/collections?designId=${encodeURIComponent(designId)}`),
+      ])
+      setFavorite((await favoriteResponse.json()).favorite)
+      const data = await collectionsResponse.json()
+      setCollections(data.collections)
+      setContaining(data.containing)
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem loading your collections: ' + error.message)
+      }
+    }
+  }
+
+  // Function to send one change, showing its error when it fails
+  const send = async (key: string, url: string, init: RequestInit) => {
+    setError(null)
+    setPending(key)
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'content-type': 'application/json' },
+      })
+      if (!response.ok) {
+        setError((await readApiError(response)).message)
+        return null
+      }
+      return response
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem saving the design: ' + error.message)
+      }
+      return null
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const toggleFavorite = async () => {
+    const response = favorite
+      ? await send('favorite', `/api/favorites/${designId}`, { method: 'DELETE' })
+      : await send('favorite', '/api/favorites', { method: 'POST', body: JSON.stringify({ designId }) })
+    if (response) {
+      setFavorite(!favorite)
+    }
+  }
+
+  const toggleCollection = async (id: string) => {
+    const saved = containing.includes(id)
+    const response = saved
+      ? await send(id, `/api/collections/${id}/designs/${designId}`, { method: 'DELETE' })
+      : await send(id, `/api/collections/${id}/designs`, { method: 'POST', body: JSON.stringify({ designId }) })
+    if (response) {
+      setContaining((current) => saved ? current.filter((other) => other !== id) : [...current, id])
+    }
+  }
+
+  // Creating a collection that starts with this design
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const response = await send('create', '/api/collections', { method: 'POST', body: JSON.stringify({ name, designId }) })
+    if (response) {
+      const { collection } = await response.json()
+      setCollections((current) => [
+        { id: collection.id, name: collection.name, size: 1, cover: null, shareToken: null, updatedAt: collection.updatedAt },
+        ...(current ?? []),
+      ])
+      setContaining((current) => [...current, collection.id])
+      setName('')
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <BookmarkIcon className="mr-2 h-4 w-4" /> Save
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save design</DialogTitle>
+          <DialogDescription>
+            Keep it in your favorites, or gather it with others in a collection to share with an artist.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2">
+          <Button variant="outline" className="justify-start" onClick={toggleFavorite} disabled={pending !== null}>
+            {favorite ? <StarFilledIcon className="mr-2 h-4 w-4 text-yellow-500" /> : <StarIcon className="mr-2 h-4 w-4" />}
+            Favorites
+          </Button>
+          {collections === null && <UpdateIcon className="mx-auto h-4 w-4 animate-spin" />}
+          {collections?.map((collection) => (
+            <Button key={collection.id} variant="outline" className="justify-start" onClick={() => toggleCollection(collection.id)} disabled={pending !== null}>
+              {pending === collection.id
+                ? <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />
+                : <CheckIcon className={`mr-2 h-4 w-4 ${containing.includes(collection.id) ? '' : 'invisible'}`} />}
+              <span className="truncate">{collection.name}</span>
+            </Button>
+          ))}
+        </div>
+        <form className="flex gap-2" onSubmit={handleCreate}>
+          <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="New collection" />
+          <Button type="submit" disabled={!name.trim() || pending !== null}>
+            <PlusIcon className="mr-2 h-4 w-4" /> Create
+          </Button>
+        </form>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SaveDialog
@@ -0,0 +1,26 @@
+"use client"
+
+import * as React from "react"
+
+import type { Credits } from "@/lib/credits"
+
+// Describing how long until the balance resets, eg. "in 5 hours" or "in 3 days"
+const resetsIn = (reset: number) => {
+  const hours = Math.max(1, Math.round((reset - Date.now()) / (60 * 60 * 1000)))
+  return hours < 48 ? `in ${hours} hour${hours === 1 ? '' : 's'}` : `in ${Math.round(hours / 24)} days`
+}
+
+// CreditsIndicator shows how many images the caller can still generate
+const CreditsIndicator = ({ credits }: { credits: Credits | null }) => {
+  if (!credits) {
+    return null
+  }
+
+  return (
+    <p className={`text-xs pt-2 ${credits.remaining === 0 ? 'text-red-400' : 'text-gray-400'}`}>
+      {credits.remaining} of {credits.limit} credits left, one per image · resets {resetsIn(credits.reset)}
+    </p>
+  )
+}
+
+export default CreditsIndicator
@@ -0,0 +1,59 @@
+"use client"
+
+import * as React from "react"
+
+import ImageComponent from "@/components/image/image-component"
+
+import type { PublicGalleryItem } from "@/lib/gallery"
+
+// A design shown on the home page, linking to its permalink when it came from the gallery
+interface Pick {
+  src: string
+  prompt: string
+  designId?: string
+}
+
+// Samples shown until the gallery has approved designs of its own
+const SAMPLES: Pick[] = [
+  { src: '/images/dog.webp', prompt: 'A golden retriever portrait as a tattoo in the arm' },
+  { src: '/images/panda.webp', prompt: 'Panda on the arm' },
+  { src: '/images/tiger.webp', prompt: 'Tiger on the arm' },
+  { src: '/images/samurai.webp', prompt: 'Samurai on back' },
+]
+
+// Card tilt for each position in the row
+const POSITIONS = ['rotate-2', '-rotate-2', 'rotate-2', 'rotate-2']
+
+// GalleryPicks shows the most liked community designs, falling back to the samples
+const GalleryPicks = () => {
+  const [items, setItems] = React.useState<PublicGalleryItem[] | null>(null)
+
+  React.useEffect(() => {
+    fetch(`/api/gallery?sort=popular&limit=${POSITIONS.length}`)
+      .then((response) => response.json())
+      .then((page: { items?: PublicGalleryItem[] }) => setItems(page.items ?? []))
+      .catch(() => setItems([]))
+  }, [])
+
+  // Keeping the samples on screen while loading, so the page does not jump
+  const picks: Pick[] = items?.length
+    ? items.map((item) => ({ src: item.image, prompt: item.prompt, designId: item.id }))
+    : SAMPLES
+
+  return (
+    <>
+      {picks.map((pick, index) => (
+        <ImageComponent
+          key={pick.src}
+          src={pick.src}
+          pos={POSITIONS[index % POSITIONS.length]}
+          title={`${index + 1}`}
+          prompt={pick.prompt}
+          designId={pick.designId}
+        />
+      ))}
+    </>
+  )
+}
+
+export default GalleryPicks
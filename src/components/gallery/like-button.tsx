@@ -0,0 +1,47 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { HeartFilledIcon, HeartIcon } from "@radix-ui/react-icons"
+
+import { readApiError } from "@/lib/errors"
+
+interface LikeButtonProps {
+  id: string
+  likes: number
+  onError?: (message: string) => void
+}
+
+// LikeButton likes a gallery design; the server counts each browser or user once
+const LikeButton = ({ id, likes: initialLikes, onError }: LikeButtonProps) => {
+  const [likes, setLikes] = React.useState(initialLikes)
+  const [liked, setLiked] = React.useState(false)
+
+  const handleClick = async () => {
+    setLiked(true)
+    try {
+      const response = await fetch(`/api/gallery/${id}/like`, { method: 'POST' })
+      if (!response.ok) {
+        setLiked(false)
+        onError?.((await readApiError(response)).message)
+        return
+      }
+      setLikes((await response.json()).likes)
+    } catch (error) {
+      setLiked(false)
+      if (error instanceof Error) {
+        onError?.('There was a problem liking the design: ' + error.message)
+      }
+    }
+  }
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleClick} disabled={liked} aria-label="Like">
+      {liked ? <HeartFilledIcon className="mr-1 h-4 w-4 text-red-500" /> : <HeartIcon className="mr-1 h-4 w-4" />}
+      {likes}
+    </Button>
+  )
+}
+
+export default LikeButton
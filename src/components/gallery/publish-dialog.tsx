@@ -0,0 +1,87 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { GlobeIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+import { readApiError } from "@/lib/errors"
+
+// PublishDialog submits one of the caller's designs to the community gallery, where it waits for review
+const PublishDialog = ({ designId }: { designId: string }) => {
+  const [tags, setTags] = React.useState('')
+  const [submitting, setSubmitting] = React.useState(false)
+  const [submitted, setSubmitted] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    setError(null)
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/gallery', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ designId, tags: tags.split(',').filter((tag) => tag.trim()) }),
+      })
+      if (!response.ok) {
+        setError((await readApiError(response)).message)
+        return
+      }
+      setSubmitted(true)
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem publishing the design: ' + error.message)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={() => setSubmitted(false)}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <GlobeIcon className="mr-2 h-4 w-4" /> Publish
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Publish to the gallery</DialogTitle>
+          <DialogDescription>
+            Share this design with the community. It appears in the gallery once a moderator approves it.
+          </DialogDescription>
+        </DialogHeader>
+        {submitted
+          ? <p className="text-sm">Thanks! Your design is waiting for review.</p>
+          : <div className="grid gap-1.5">
+            <Label htmlFor="publishTags">Tags</Label>
+            <Input id="publishTags" value={tags} onChange={(event) => setTags(event.target.value)} placeholder="floral, forearm, fine line" />
+            <p className="text-xs text-muted-foreground">A few words people might search for, separated by commas.</p>
+          </div>
+        }
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!submitted &&
+          <DialogFooter>
+            <Button onClick={handleSubmit} disabled={submitting}>
+              {submitting && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+              Submit for review
+            </Button>
+          </DialogFooter>
+        }
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PublishDialog
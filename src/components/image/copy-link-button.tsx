@@ -0,0 +1,30 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { CheckIcon, Link2Icon } from "@radix-ui/react-icons"
+
+// How long the "Copied" confirmation stays visible
+const CONFIRMATION_MS = 2000
+
+// CopyLinkButton copies a link to a page of this site, such as a design's permalink, to the clipboard
+const CopyLinkButton = ({ path }: { path: string }) => {
+  const [copied, setCopied] = React.useState(false)
+
+  const handleClick = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}${path}`)
+    setCopied(true)
+    setTimeout(() => setCopied(false), CONFIRMATION_MS)
+  }
+
+  return (
+    <Button variant="outline" onClick={handleClick}>
+      {copied
+        ? <><CheckIcon className="mr-2 h-4 w-4" /> Copied</>
+        : <><Link2Icon className="mr-2 h-4 w-4" /> Copy link</>}
+    </Button>
+  )
+}
+
+export default CopyLinkButton
@@ -0,0 +1,96 @@
+"use client"
+
+import * as React from "react"
+
+// Next.js's Image component is an extension of the HTML <img> element, evolved for the modern web.
+import Image from 'next/image'
+import Link from 'next/link'
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AspectRatio } from "@/components/ui/aspect-ratio"
+import { DownloadIcon, PersonIcon } from "@radix-ui/react-icons"
+
+import CopyLinkButton from "@/components/image/copy-link-button"
+import StencilDownload from "@/components/image/stencil-download"
+import PrintExport from "@/components/image/print-export"
+import SaveDialog from "@/components/collections/save-dialog"
+
+import { downloadImage } from "@/lib/download"
+
+// DownloadButton saves an image when clicked, named after its design when there is one
+export const DownloadButton = ({ src, designId }: { src: string; designId?: string }) => (
+  <Button onClick={() => downloadImage(src, designId ? `tattoo-${designId}` : undefined)}>
+    <DownloadIcon className="mr-2 h-4 w-4" /> Download
+  </Button>
+)
+
+interface ImageComponentProps {
+  src: string
+  pos: string
+  title?: string
+  prompt?: string
+  // Permalink id of the design, which enables the Save, Try on, Copy link, Stencil and Print PDF actions
+  designId?: string
+  // Extra buttons rendered in the dialog footer, before Download
+  actions?: React.ReactNode
+}
+
+// ImageComponent is a React functional component. It takes src, pos, title, and prompt as props and returns an Image component.
+const ImageComponent = ({ src, pos, title, prompt, designId, actions }: ImageComponentProps) => (
+  <Dialog>
+    <DialogTrigger asChild>
+      <div className={`relative aspect-[9/10] w-44 flex-none overflow-hidden rounded-xl bg-zinc-100  border-2 border-white sm:w-72 sm:rounded-2xl rotate-0 sm:${pos} sm:hover:rotate-0`}>
+        <Image
+          alt="Predictions"
+          loading="lazy"
+          width={640}
+          height={640}
+          src={src}
+          className="absolute inset-0 h-full w-full object-cover"
+        />
+      </div>
+    </DialogTrigger>
+    <DialogContent className="sm:max-w">
+      <DialogHeader>
+        <DialogTitle>Tattoo Idea {title}</DialogTitle>
+        {prompt && <DialogDescription>
+          <span className='font-semibold'>Prompt:</span> {prompt}
+        </DialogDescription>}
+      </DialogHeader>
+      <AspectRatio ratio={4 / 5}>
+        <Image
+          alt="Predictions"
+          width={640}
+          height={640}
+          src={src}
+          priority={true}
+          className="absolute inset-0 h-full w-full object-cover"
+        />
+      </AspectRatio>
+      <DialogFooter className="flex-wrap gap-y-2">
+        {actions}
+        {designId && <SaveDialog designId={designId} />}
+        {designId && <Button variant="outline" asChild>
+          <Link href={`/design/${designId}/preview`}>
+            <PersonIcon className="mr-2 h-4 w-4" /> Try on
+          </Link>
+        </Button>}
+        {designId && <CopyLinkButton path={`/design/${designId}`} />}
+        {designId && <StencilDownload designId={designId} />}
+        {designId && <PrintExport designId={designId} />}
+        <DownloadButton src={src} designId={designId} />
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+)
+
+export default ImageComponent
@@ -0,0 +1,182 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { MagicWandIcon, ResetIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+import { readApiError } from "@/lib/errors"
+import type { Prediction } from "@/lib/providers"
+
+// Color the painted region is shown in while editing
+const PAINT_COLOR = 'rgba(244, 63, 94, 0.6)'
+
+interface InpaintEditorProps {
+  src: string
+  designId: string
+  // Called with the new prediction once the edit has been submitted
+  onStarted: (prediction: Prediction) => void
+}
+
+// InpaintEditor lets users paint a mask over a design and repaint that region with a new prompt
+const InpaintEditor = ({ src, designId, onStarted }: InpaintEditorProps) => {
+  const [open, setOpen] = React.useState(false)
+  const [message, setMessage] = React.useState('')
+  const [brushSize, setBrushSize] = React.useState(40)
+  const [painted, setPainted] = React.useState(false)
+  const [submitting, setSubmitting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const imageRef = React.useRef<HTMLImageElement>(null)
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const drawing = React.useRef(false)
+
+  // Sizing the canvas to the image's natural resolution once it has loaded
+  const handleImageLoad = () => {
+    const image = imageRef.current
+    const canvas = canvasRef.current
+    if (image && canvas) {
+      canvas.width = image.naturalWidth
+      canvas.height = image.naturalHeight
+      setPainted(false)
+    }
+  }
+
+  // Painting a dot at the pointer, converting from screen to canvas pixels
+  const paint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) {
+      return
+    }
+    const rect = canvas.getBoundingClientRect()
+    const scale = canvas.width / rect.width
+    context.fillStyle = PAINT_COLOR
+    context.beginPath()
+    context.arc(
+      (event.clientX - rect.left) * scale,
+      (event.clientY - rect.top) * scale,
+      (brushSize / 2) * scale,
+      0,
+      Math.PI * 2
+    )
+    context.fill()
+    setPainted(true)
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setPainted(false)
+  }
+
+  // Turning the painted overlay into a black and white mask, white where the image is repainted
+  const buildMask = () => {
+    const canvas = canvasRef.current!
+    const mask = document.createElement('canvas')
+    mask.width = canvas.width
+    mask.height = canvas.height
+    const context = mask.getContext('2d')!
+    context.drawImage(canvas, 0, 0)
+    context.globalCompositeOperation = 'source-in'
+    context.fillStyle = '#fff'
+    context.fillRect(0, 0, mask.width, mask.height)
+    context.globalCompositeOperation = 'destination-over'
+    context.fillStyle = '#000'
+    context.fillRect(0, 0, mask.width, mask.height)
+    return mask.toDataURL('image/png')
+  }
+
+  const handleSubmit = async () => {
+    if (!message) {
+      setError('Describe what should appear in the painted region.')
+      return
+    }
+    if (!painted) {
+      setError('Paint over the region you want to change first.')
+      return
+    }
+
+    setError(null)
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/inpaint', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ designId, mask: buildMask(), message }),
+      })
+      if (!response.ok) {
+        setError((await readApiError(response)).message)
+        return
+      }
+      setOpen(false)
+      onStarted(await response.json())
+    } catch (error) {
+      if (error instanceof Error) {
+        setError('There was a problem submitting the edit: ' + error.message)
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <MagicWandIcon className="mr-2 h-4 w-4" /> Edit region
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit a region</DialogTitle>
+          <DialogDescription>
+            Paint over the part of the design you want to change, then describe what should appear there.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="relative mx-auto w-full max-w-md touch-none select-none">
+          {/* A plain img is used so the canvas can match its natural size */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img ref={imageRef} src={src} alt="Design being edited" crossOrigin="anonymous" onLoad={handleImageLoad} className="w-full rounded-md" />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 h-full w-full cursor-crosshair rounded-md"
+            onPointerDown={(event) => { drawing.current = true; paint(event) }}
+            onPointerMove={(event) => drawing.current && paint(event)}
+            onPointerUp={() => { drawing.current = false }}
+            onPointerLeave={() => { drawing.current = false }}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="brushSize" className="flex-none">Brush size</Label>
+          <Input type="range" id="brushSize" min={5} max={120} value={brushSize} onChange={(event) => setBrushSize(Number(event.target.value))} />
+          <Button variant="ghost" size="sm" onClick={handleClear} disabled={!painted}>
+            <ResetIcon className="mr-2 h-4 w-4" /> Clear
+          </Button>
+        </div>
+        <Textarea value={message} onChange={(event) => setMessage(event.target.value)} placeholder="Eg.: a rose instead of the skull" />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <DialogFooter>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+            Repaint region
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default InpaintEditor
@@ -0,0 +1,188 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { DownloadIcon, ResetIcon } from "@radix-ui/react-icons"
+
+import ReferenceUpload from "@/components/image/reference-upload"
+
+import { downloadImage } from "@/lib/download"
+import {
+  DEFAULT_PLACEMENT,
+  drawPlacement,
+  MAX_PREVIEW_SIZE,
+  PLACEMENT_TEMPLATES,
+  PlacementTemplateId,
+  PlacementTransform,
+} from "@/lib/placement"
+
+// Sliders shown for the transform, with their ranges
+const CONTROLS: { name: keyof PlacementTransform; label: string; min: number; max: number; step: number }[] = [
+  { name: 'scale', label: 'Size', min: 0.05, max: 1, step: 0.01 },
+  { name: 'rotation', label: 'Rotation', min: -180, max: 180, step: 1 },
+  { name: 'tiltX', label: 'Tilt up/down', min: -1, max: 1, step: 0.01 },
+  { name: 'tiltY', label: 'Tilt left/right', min: -1, max: 1, step: 0.01 },
+  { name: 'opacity', label: 'Ink strength', min: 0.1, max: 1, step: 0.01 },
+]
+
+// Loading an image element, so it can be drawn onto a canvas
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new window.Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('The image could not be loaded.'))
+    image.src = src
+  })
+
+// Placement starting point for a template, or the photo's centre for uploads
+const initialPlacement = (template: PlacementTemplateId | null): PlacementTransform => {
+  const preset = PLACEMENT_TEMPLATES.find(({ id }) => id === template)
+  return preset ? { ...DEFAULT_PLACEMENT, x: preset.x, y: preset.y, scale: preset.scale } : DEFAULT_PLACEMENT
+}
+
+interface PlacementPreviewProps {
+  designId: string
+  src: string
+}
+
+// PlacementPreview composites a design onto a body-part template or an uploaded photo
+const PlacementPreview = ({ designId, src }: PlacementPreviewProps) => {
+  const [template, setTemplate] = React.useState<PlacementTemplateId | null>(PLACEMENT_TEMPLATES[0].id)
+  const [photo, setPhoto] = React.useState<string | null>(null)
+  const [transform, setTransform] = React.useState(initialPlacement(PLACEMENT_TEMPLATES[0].id))
+  const [images, setImages] = React.useState<{ photo: HTMLImageElement; design: HTMLImageElement } | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const dragging = React.useRef(false)
+
+  const photoSrc = photo ?? PLACEMENT_TEMPLATES.find(({ id }) => id === template)?.src
+
+  // Loading the photo and the design whenever either changes
+  React.useEffect(() => {
+    if (!photoSrc) {
+      return
+    }
+    let cancelled = false
+    Promise.all([loadImage(photoSrc), loadImage(src)])
+      .then(([photo, design]) => {
+        const canvas = canvasRef.current
+        if (cancelled || !canvas) {
+          return
+        }
+        // Keeping the photo's aspect ratio within the preview size
+        const ratio = Math.min(1, MAX_PREVIEW_SIZE / Math.max(photo.naturalWidth, photo.naturalHeight))
+        canvas.width = Math.round(photo.naturalWidth * ratio)
+        canvas.height = Math.round(photo.naturalHeight * ratio)
+        setImages({ photo, design })
+      })
+      .catch((error) => setError(error.message))
+    return () => {
+      cancelled = true
+    }
+  }, [photoSrc, src])
+
+  // Redrawing the composite on every change
+  React.useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    if (context && images) {
+      drawPlacement(context, images.photo, images.design, transform)
+    }
+  }, [images, transform])
+
+  const handleTemplate = (id: PlacementTemplateId) => {
+    setPhoto(null)
+    setTemplate(id)
+    setTransform(initialPlacement(id))
+  }
+
+  const handlePhoto = (value: string | null) => {
+    setError(null)
+    setPhoto(value)
+    setTemplate(value ? null : PLACEMENT_TEMPLATES[0].id)
+    setTransform(initialPlacement(value ? null : PLACEMENT_TEMPLATES[0].id))
+  }
+
+  // Moving the design to the pointer, converting from screen to photo fractions
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    setTransform({
+      ...transform,
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    })
+  }
+
+  const handleExport = () => {
+    const canvas = canvasRef.current
+    if (canvas) {
+      downloadImage(canvas.toDataURL('image/png'), `tattoo-${designId}-preview`)
+    }
+  }
+
+  return (
+    <div className="grid gap-8 md:grid-cols-[1fr_18rem]">
+      <div className="touch-none select-none">
+        <canvas
+          ref={canvasRef}
+          className="w-full cursor-move rounded-2xl border-2 border-white"
+          onPointerDown={(event) => { dragging.current = true; move(event) }}
+          onPointerMove={(event) => dragging.current && move(event)}
+          onPointerUp={() => { dragging.current = false }}
+          onPointerLeave={() => { dragging.current = false }}
+        />
+        <p className="mt-2 text-xs text-gray-400">Drag on the photo to move the design.</p>
+      </div>
+
+      <div className="space-y-6 text-white">
+        <div className="space-y-2">
+          <Label>Body part</Label>
+          <div className="flex flex-wrap gap-2">
+            {PLACEMENT_TEMPLATES.map(({ id, name }) => (
+              <Button key={id} size="sm" variant={template === id ? 'secondary' : 'outline'} onClick={() => handleTemplate(id)}>
+                {name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Or your own photo</Label>
+          <ReferenceUpload value={photo} onChange={handlePhoto} onError={setError} />
+        </div>
+
+        {CONTROLS.map(({ name, label, min, max, step }) => (
+          <div key={name} className="space-y-2">
+            <Label htmlFor={`placement-${name}`}>{label}</Label>
+            <Input
+              type="range"
+              id={`placement-${name}`}
+              min={min}
+              max={max}
+              step={step}
+              value={transform[name]}
+              onChange={(event) => setTransform({ ...transform, [name]: Number(event.target.value) })}
+            />
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setTransform(initialPlacement(template))}>
+            <ResetIcon className="mr-2 h-4 w-4" /> Reset
+          </Button>
+          <Button onClick={handleExport} disabled={!images}>
+            <DownloadIcon className="mr-2 h-4 w-4" /> Export image
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PlacementPreview
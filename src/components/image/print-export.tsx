@@ -0,0 +1,104 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FileTextIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+import { downloadImage } from "@/lib/download"
+
+// PrintExport lets artists download a design as a PDF at a physical size, ready to print
+const PrintExport = ({ designId }: { designId: string }) => {
+  const [width, setWidth] = React.useState('10')
+  const [unit, setUnit] = React.useState('cm')
+  const [dpi, setDpi] = React.useState('300')
+  const [mirror, setMirror] = React.useState(false)
+  const [downloading, setDownloading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const href = `/api/print/${designId}?` + new URLSearchParams({
+    width,
+    unit,
+    dpi,
+    mirror: mirror ? '1' : '0',
+  })
+
+  // Fetching the PDF first, so an invalid size is reported here instead of saved as a file
+  const handleDownload = async () => {
+    setError(null)
+    setDownloading(true)
+    try {
+      await downloadImage(href, `tattoo-${designId}-${width}${unit}${mirror ? '-mirrored' : ''}`)
+    } catch (error) {
+      if (error instanceof Error) {
+        setError(error.message)
+      }
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileTextIcon className="mr-2 h-4 w-4" /> Print PDF
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Print-ready PDF</DialogTitle>
+          <DialogDescription>
+            The design is placed on the page at its real size, with the prompt, style and design id in the margin.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="grid gap-1.5">
+            <Label htmlFor="printWidth">Width</Label>
+            <div className="flex gap-2">
+              <Input type="number" id="printWidth" min={1} step={0.5} value={width} onChange={(event) => setWidth(event.target.value)} />
+              <select
+                aria-label="Unit"
+                value={unit}
+                onChange={(event) => setUnit(event.target.value)}
+                className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                <option value="cm">cm</option>
+                <option value="mm">mm</option>
+                <option value="in">in</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="printDpi">DPI</Label>
+            <Input type="number" id="printDpi" min={72} max={1200} step={1} value={dpi} onChange={(event) => setDpi(event.target.value)} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input type="checkbox" id="printMirror" checked={mirror} onChange={(event) => setMirror(event.target.checked)} />
+          <Label htmlFor="printMirror">Mirror for transfer paper</Label>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <DialogFooter>
+          <Button onClick={handleDownload} disabled={downloading}>
+            {downloading && <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PrintExport
@@ -0,0 +1,101 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+import { MAX_UPLOAD_BYTES, UPLOAD_TYPES } from "@/lib/uploads"
+import { Cross2Icon, UploadIcon } from "@radix-ui/react-icons"
+
+interface ReferenceUploadProps {
+  // The selected image as a data URL, or null when none is selected
+  value: string | null
+  onChange: (value: string | null) => void
+  onError: (message: string) => void
+  disabled?: boolean
+}
+
+// Reading a file into a base64 data URL
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+// ReferenceUpload is a drag-and-drop area for picking a reference image
+const ReferenceUpload = ({ value, onChange, onError, disabled }: ReferenceUploadProps) => {
+  const [dragging, setDragging] = React.useState(false)
+  const inputRef = React.useRef<HTMLInputElement>(null)
+
+  // Checking the file before reading it; the server validates it again
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return
+    }
+    if (!UPLOAD_TYPES[file.type]) {
+      onError('Please upload a PNG, JPEG or WebP image.')
+      return
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      onError(`Please upload an image smaller than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`)
+      return
+    }
+    onChange(await readAsDataUrl(file))
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setDragging(false)
+    if (!disabled) {
+      handleFile(event.dataTransfer.files[0])
+    }
+  }
+
+  if (value) {
+    return (
+      <div className="relative mx-auto h-24 w-24 overflow-hidden rounded-md border border-input">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={value} alt="Reference" className="h-full w-full object-cover" />
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="absolute right-1 top-1 rounded-sm bg-background/80 p-0.5 opacity-70 hover:opacity-100"
+        >
+          <Cross2Icon className="h-4 w-4" />
+          <span className="sr-only">Remove reference image</span>
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(event) => event.key === 'Enter' && !disabled && inputRef.current?.click()}
+      onDragOver={(event) => { event.preventDefault(); setDragging(true) }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "flex flex-col items-center justify-center gap-1 rounded-md border border-dashed border-input px-3 py-4 text-xs text-gray-400 transition-colors cursor-pointer hover:border-gray-300",
+        dragging && "border-gray-300 bg-accent",
+        disabled && "cursor-not-allowed opacity-50"
+      )}
+    >
+      <UploadIcon className="h-4 w-4" />
+      <span>Drop a sketch, photo or existing tattoo here, or click to upload</span>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={Object.keys(UPLOAD_TYPES).join(',')}
+        className="hidden"
+        onChange={(event) => handleFile(event.target.files?.[0])}
+      />
+    </div>
+  )
+}
+
+export default ReferenceUpload
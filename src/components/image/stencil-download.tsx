@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Pencil2Icon } from "@radix-ui/react-icons"
+
+// Stencil formats offered, with the label shown for each
+const FORMATS = [
+  { format: 'png', label: 'Transparent PNG' },
+  { format: 'svg', label: 'Vector SVG' },
+]
+
+// StencilDownload offers a design as line art for transfer paper
+const StencilDownload = ({ designId }: { designId: string }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline">
+        <Pencil2Icon className="mr-2 h-4 w-4" /> Stencil
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent>
+      <DropdownMenuLabel>Download stencil</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {FORMATS.map(({ format, label }) => (
+        <DropdownMenuItem key={format} asChild>
+          {/* The route names the file through Content-Disposition */}
+          <a href={`/api/stencil/${designId}?format=${format}`} download>{label}</a>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+)
+
+export default StencilDownload
@@ -0,0 +1,72 @@
+"use client"
+
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { EnterFullScreenIcon, ShuffleIcon, UpdateIcon } from "@radix-ui/react-icons"
+
+import { readApiError } from "@/lib/errors"
+import { DEFAULT_GENERATION_PARAMS } from "@/lib/generation"
+import type { Prediction } from "@/lib/providers"
+
+// Derived runs offered on a design, and the route each one posts to
+const ACTIONS = {
+  variations: { url: '/api/variations', label: 'Make variations' },
+  upscale: { url: '/api/upscale', label: 'Upscale 4x' },
+}
+
+type VariationAction = keyof typeof ACTIONS
+
+interface VariationActionsProps {
+  designId: string
+  // Called with the new prediction and how many outputs it will produce
+  onStarted: (prediction: Prediction, outputs: number) => void
+  onError: (message: string) => void
+}
+
+// VariationActions starts a variations or upscale run from a design
+const VariationActions = ({ designId, onStarted, onError }: VariationActionsProps) => {
+  const [pending, setPending] = React.useState<VariationAction | null>(null)
+
+  const handleClick = async (action: VariationAction) => {
+    setPending(action)
+    try {
+      const response = await fetch(ACTIONS[action].url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ designId }),
+      })
+      if (!response.ok) {
+        onError((await readApiError(response)).message)
+        return
+      }
+      // Upscaling returns a single image, variations the default batch
+      onStarted(await response.json(), action === 'upscale' ? 1 : DEFAULT_GENERATION_PARAMS.numOutputs)
+    } catch (error) {
+      if (error instanceof Error) {
+        onError('There was a problem starting the run: ' + error.message)
+      }
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const icon = (action: VariationAction) =>
+    pending === action
+      ? <UpdateIcon className="mr-2 h-4 w-4 animate-spin" />
+      : action === 'upscale'
+        ? <EnterFullScreenIcon className="mr-2 h-4 w-4" />
+        : <ShuffleIcon className="mr-2 h-4 w-4" />
+
+  return (
+    <>
+      {(Object.keys(ACTIONS) as VariationAction[]).map((action) => (
+        <Button key={action} variant="outline" onClick={() => handleClick(action)} disabled={pending !== null}>
+          {icon(action)} {ACTIONS[action].label}
+        </Button>
+      ))}
+    </>
+  )
+}
+
+export default VariationActions
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+
+import { ApiError } from '@/lib/errors'
+import { getUserId } from '@/lib/identity'
+
+import { getUser, User } from './users'
+
+// Admins are the signed-in users whose verified email is listed in ADMIN_EMAILS, comma separated
+export function isAdmin(user: User | null) {
+  if (!user?.email) {
+    return false
+  }
+  const admins = (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+  return admins.includes(user.email.toLowerCase())
+}
+
+// Loading the signed-in admin behind a request, throwing when there is none
+export async function requireAdmin(req: NextRequest): Promise<User> {
+  const userId = getUserId(req)
+  const user = userId ? await getUser(userId) : null
+  if (!user) {
+    throw new ApiError('unauthorized', 'Please sign in first.')
+  }
+  if (!isAdmin(user)) {
+    throw new ApiError('forbidden', 'Only admins can do this.')
+  }
+  return user
+}
@@ -0,0 +1,6 @@
+export * from './admin'
+export * from './magic-link'
+export * from './providers'
+export * from './session'
+export * from './sign-in'
+export * from './users'
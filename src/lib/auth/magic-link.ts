@@ -0,0 +1,61 @@
+import { NotFoundError } from '@/lib/errors'
+import { kv } from '@/lib/kv'
+
+import { isEmailEnabled } from './providers'
+
+// Magic links expire after fifteen minutes
+const MAGIC_LINK_TTL_SECONDS = 15 * 60
+
+// Sender of magic link emails when AUTH_EMAIL_FROM is not set
+const DEFAULT_FROM = 'AI Tattoo Generator <login@tattooideas.io>'
+
+// MagicLink is what a pending sign-in link remembers
+interface MagicLink {
+  email: string
+  callbackUrl: string
+}
+
+// Building the KV key of a pending magic link
+const magicLinkKey = (token: string) => `magic-link:${token}`
+
+// Creating a single-use sign-in token for an email address
+export async function createMagicLink(email: string, callbackUrl: string) {
+  const token = crypto.randomUUID()
+  await kv.set<MagicLink>(magicLinkKey(token), { email, callbackUrl }, { ex: MAGIC_LINK_TTL_SECONDS })
+  return token
+}
+
+// Redeeming a token, returning null when it is unknown, expired or already used
+export async function consumeMagicLink(token: string) {
+  return kv.getdel<MagicLink>(magicLinkKey(token))
+}
+
+// Sending the sign-in link through Resend, or logging it in development when no API key is configured.
+// A logged link signs anyone who reads the log in, so production without a key refuses instead.
+export async function sendMagicLink(email: string, url: string) {
+  if (!isEmailEnabled()) {
+    throw new NotFoundError('Email sign-in is not configured.')
+  }
+  if (!process.env.RESEND_API_KEY) {
+    console.info(`Magic link for ${email}: ${url}`)
+    return
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: process.env.AUTH_EMAIL_FROM ?? DEFAULT_FROM,
+      to: email,
+      subject: 'Sign in to AI Tattoo Generator',
+      text: `Open this link to sign in. It expires in 15 minutes.\n\n${url}`,
+      html: `<p>Open this link to sign in. It expires in 15 minutes.</p><p><a href="${url}">Sign in to AI Tattoo Generator</a></p>`,
+    }),
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to send the sign-in email: ${response.status}`)
+  }
+}
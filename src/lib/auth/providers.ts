@@ -0,0 +1,107 @@
+import type { Profile } from './users'
+
+// Cookie holding the state of an OAuth sign-in in progress
+export const OAUTH_STATE_COOKIE = 'tattoo_oauth_state'
+
+// OAuthProvider describes an OAuth 2.0 authorization code flow
+export interface OAuthProvider {
+  id: string
+  name: string
+  authorizeUrl: string
+  tokenUrl: string
+  scope: string
+  // Environment variables holding the client credentials
+  clientIdEnv: string
+  clientSecretEnv: string
+  // Fetching the signed-in person's id and profile with an access token
+  profile(accessToken: string): Promise<Profile & { id: string }>
+}
+
+// AuthProviderInfo is how a sign-in method is listed to the browser
+export interface AuthProviderInfo {
+  id: string
+  name: string
+  type: 'email' | 'oauth' | 'dev'
+}
+
+// Fetching JSON from a provider API, failing on error responses
+async function fetchJson(url: string, accessToken: string) {
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+  return response.json()
+}
+
+const github: OAuthProvider = {
+  id: 'github',
+  name: 'GitHub',
+  authorizeUrl: 'https://github.com/login/oauth/authorize',
+  tokenUrl: 'https://github.com/login/oauth/access_token',
+  scope: 'read:user user:email',
+  clientIdEnv: 'GITHUB_CLIENT_ID',
+  clientSecretEnv: 'GITHUB_CLIENT_SECRET',
+  async profile(accessToken) {
+    const user = await fetchJson('https://api.github.com/user', accessToken)
+    // The profile email may be hidden, the primary verified address is always listed
+    const emails: { email: string; primary: boolean; verified: boolean }[] =
+      await fetchJson('https://api.github.com/user/emails', accessToken)
+    return {
+      id: String(user.id),
+      email: emails.find((email) => email.primary && email.verified)?.email ?? null,
+      name: user.name ?? user.login,
+      image: user.avatar_url ?? null,
+    }
+  },
+}
+
+const google: OAuthProvider = {
+  id: 'google',
+  name: 'Google',
+  authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: 'https://oauth2.googleapis.com/token',
+  scope: 'openid email profile',
+  clientIdEnv: 'GOOGLE_CLIENT_ID',
+  clientSecretEnv: 'GOOGLE_CLIENT_SECRET',
+  async profile(accessToken) {
+    const user = await fetchJson('https://openidconnect.googleapis.com/v1/userinfo', accessToken)
+    return {
+      id: user.sub,
+      email: user.email_verified ? user.email : null,
+      name: user.name ?? null,
+      image: user.picture ?? null,
+    }
+  },
+}
+
+// Registry of the supported OAuth providers
+const oauthProviders: Record<string, OAuthProvider> = { github, google }
+
+// Looking up an OAuth provider, or null when it is unknown or has no credentials
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  const provider = oauthProviders[id]
+  if (!provider || !process.env[provider.clientIdEnv] || !process.env[provider.clientSecretEnv]) {
+    return null
+  }
+  return provider
+}
+
+// Magic links need a way to send email, except in development where they are logged
+export const isEmailEnabled = () =>
+  !!process.env.RESEND_API_KEY || process.env.NODE_ENV !== 'production'
+
+// The dev provider signs in as any email address without checking it, so it never runs in production
+export const isDevLoginEnabled = () => process.env.NODE_ENV !== 'production'
+
+// Listing the sign-in methods available in this deployment
+export function listAuthProviders(): AuthProviderInfo[] {
+  return [
+    ...(isEmailEnabled() ? [{ id: 'email', name: 'Email', type: 'email' as const }] : []),
+    ...Object.values(oauthProviders)
+      .filter((provider) => getOAuthProvider(provider.id))
+      .map(({ id, name }) => ({ id, name, type: 'oauth' as const })),
+    ...(isDevLoginEnabled() ? [{ id: 'dev', name: 'Development', type: 'dev' as const }] : []),
+  ]
+}
@@ -0,0 +1,97 @@
+// Cookie holding the signed session of a signed-in user
+export const SESSION_COOKIE = 'tattoo_session'
+
+// Sessions last thirty days
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30
+
+// Request header the middleware sets to the verified user id, never trusted from the client
+export const USER_ID_HEADER = 'x-tattoo-user-id'
+
+// Secret used to sign sessions in development when AUTH_SECRET is not set
+const DEVELOPMENT_SECRET = 'tattoo-ideas-development-secret'
+
+// Session is the signed payload stored in the session cookie
+export interface Session {
+  userId: string
+  // Expiry as a Unix timestamp in seconds
+  expiresAt: number
+}
+
+// Encoding bytes as unpadded base64url
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode.apply(null, Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+// Decoding unpadded base64url into bytes
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0))
+
+// Reading the signing secret; production refuses to fall back to the development one
+function getSecret() {
+  if (process.env.AUTH_SECRET) {
+    return process.env.AUTH_SECRET
+  }
+  return process.env.NODE_ENV === 'production' ? null : DEVELOPMENT_SECRET
+}
+
+// Importing the secret as an HMAC key
+async function getKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+// Signing a session for a user, returning the cookie value
+export async function signSession(userId: string): Promise<string> {
+  const secret = getSecret()
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not set.')
+  }
+
+  const session: Session = { userId, expiresAt: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE }
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(session)))
+  const signature = await crypto.subtle.sign('HMAC', await getKey(secret), new TextEncoder().encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Verifying a cookie value, returning the session or null when it is forged or expired
+export async function verifySession(token: string | undefined): Promise<Session | null> {
+  const secret = getSecret()
+  const [payload, signature] = token?.split('.') ?? []
+  if (!secret || !payload || !signature) {
+    return null
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    )
+    if (!valid) {
+      return null
+    }
+
+    const session: Session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)))
+    return session.expiresAt > Date.now() / 1000 ? session : null
+  } catch {
+    // Malformed base64 or JSON is treated like a bad signature
+    return null
+  }
+}
+
+// Cookie attributes shared by setting and clearing the session
+export const sessionCookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  maxAge,
+  path: '/',
+})
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { moveCollections } from '@/lib/collections'
+import { moveHistory } from '@/lib/history'
+import { getDeviceId } from '@/lib/identity'
+
+import { SESSION_COOKIE, SESSION_MAX_AGE, sessionCookieOptions, signSession } from './session'
+import type { User } from './users'
+
+// Loose check for something shaped like an email address; delivery is the real test
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Longest email address accepted, as allowed by RFC 5321
+const MAX_EMAIL_LENGTH = 254
+
+// Normalising an email address, or null when it is not one
+export function parseEmail(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const email = value.trim().toLowerCase()
+  return email.length <= MAX_EMAIL_LENGTH && EMAIL_PATTERN.test(email) ? email : null
+}
+
+// Only allowing redirects back into this site after signing in
+export function safeCallbackUrl(value: string | null | undefined) {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/'
+}
+
+// Starting a session for a user on the response, and handing them this device's history and collections
+export async function completeSignIn(req: NextRequest, user: User, response: NextResponse) {
+  const deviceId = getDeviceId(req)
+  if (deviceId) {
+    await moveHistory(`device:${deviceId}`, `user:${user.id}`)
+    await moveCollections(`device:${deviceId}`, `user:${user.id}`)
+  }
+
+  response.cookies.set(SESSION_COOKIE, await signSession(user.id), sessionCookieOptions(SESSION_MAX_AGE))
+  return response
+}
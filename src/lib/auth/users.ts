@@ -0,0 +1,77 @@
+import { kv } from '@/lib/kv'
+
+// User is a signed-in person, however they signed in
+export interface User {
+  id: string
+  email: string | null
+  name: string | null
+  image: string | null
+  createdAt: number
+  // Paid users get larger quotas; everyone else is on the free tier
+  tier?: 'free' | 'paid'
+}
+
+// Profile details a sign-in method knows about the person
+export interface Profile {
+  // Only set when the provider has verified the address
+  email?: string | null
+  name?: string | null
+  image?: string | null
+}
+
+// Account links a user to their identity at an OAuth provider
+export interface Account {
+  provider: string
+  providerAccountId: string
+}
+
+// Building the KV key of a user
+const userKey = (id: string) => `user:${id}`
+
+// Building the KV key mapping a verified email address to its user
+const emailKey = (email: string) => `user-email:${email.toLowerCase()}`
+
+// Building the KV key mapping a provider account to its user
+const accountKey = ({ provider, providerAccountId }: Account) =>
+  `user-account:${provider}:${providerAccountId}`
+
+// Reading a user, or null when they do not exist
+export async function getUser(id: string) {
+  return kv.get<User>(userKey(id))
+}
+
+// Finding the user behind a sign-in, creating them on first sign-in.
+// Accounts are matched first, then verified email addresses, so one person
+// signing in with a magic link and with OAuth ends up as a single user.
+export async function findOrCreateUser(profile: Profile, account?: Account): Promise<User> {
+  const email = profile.email?.toLowerCase() ?? null
+
+  const existingId =
+    (account && (await kv.get<string>(accountKey(account)))) ||
+    (email && (await kv.get<string>(emailKey(email))))
+  const existing = existingId ? await getUser(existingId) : null
+
+  const user: User = existing
+    ? {
+        ...existing,
+        email: existing.email ?? email,
+        name: existing.name ?? profile.name ?? null,
+        image: existing.image ?? profile.image ?? null,
+      }
+    : {
+        id: crypto.randomUUID(),
+        email,
+        name: profile.name ?? null,
+        image: profile.image ?? null,
+        createdAt: Date.now(),
+      }
+
+  await kv.set(userKey(user.id), user)
+  if (user.email) {
+    await kv.set(emailKey(user.email), user.id)
+  }
+  if (account) {
+    await kv.set(accountKey(account), user.id)
+  }
+  return user
+}
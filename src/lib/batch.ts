@@ -0,0 +1,114 @@
+import { ApiErrorBody, ValidationError } from '@/lib/errors'
+import { GENERATION_LIMITS, GenerationParams, parseGenerationParams } from '@/lib/generation'
+import type { Prediction } from '@/lib/providers'
+
+// Bounds on a batch: how many prompts it runs, and how many variables and values a template may use
+export const BATCH_LIMITS = { prompts: 12, variables: 3, values: 8 }
+
+// Placeholder of a template variable, eg. "{animal}"
+const VARIABLE_PATTERN = /\{([a-z][a-z0-9_]*)\}/gi
+
+// BatchPrompt is one prompt of a batch, with the template values it was built from
+export interface BatchPrompt {
+  prompt: string
+  values?: Record<string, string>
+}
+
+// BatchCell is the outcome of one prompt: the prediction it started, or why it did not start
+export interface BatchCell extends BatchPrompt {
+  prediction: Prediction | null
+  error: ApiErrorBody['error'] | null
+}
+
+// Listing the variables a template uses, in order of first appearance
+export function templateVariables(template: string): string[] {
+  const names: string[] = []
+  template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (!names.includes(name)) {
+      names.push(name)
+    }
+    return match
+  })
+  return names
+}
+
+// Expanding a template into one prompt for every combination of its variables' values,
+// eg. "{animal} in {style}" with two animals and three styles gives six prompts
+export function expandTemplate(template: string, variables: Record<string, string[]>): BatchPrompt[] {
+  const names = templateVariables(template)
+  if (!names.length) {
+    throw new ValidationError('The template needs at least one variable, such as {animal}.')
+  }
+  if (names.length > BATCH_LIMITS.variables) {
+    throw new ValidationError(`A template can use at most ${BATCH_LIMITS.variables} variables.`)
+  }
+
+  let combinations: Record<string, string>[] = [{}]
+  for (const name of names) {
+    const values = Object.prototype.hasOwnProperty.call(variables, name)
+      ? variables[name].map((value) => value.trim()).filter(Boolean)
+      : []
+    if (!values.length) {
+      throw new ValidationError(`Give at least one value for {${name}}.`)
+    }
+    if (values.length > BATCH_LIMITS.values) {
+      throw new ValidationError(`Give at most ${BATCH_LIMITS.values} values for {${name}}.`)
+    }
+    combinations = combinations.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: value }))
+    )
+    // Stopping early, so a large matrix is refused before it is built
+    if (combinations.length > BATCH_LIMITS.prompts) {
+      throw new ValidationError(`A batch can run at most ${BATCH_LIMITS.prompts} prompts.`)
+    }
+  }
+
+  return combinations.map((values) => ({
+    prompt: template.replace(VARIABLE_PATTERN, (match, name: string) => values[name] ?? match).trim(),
+    values,
+  }))
+}
+
+// Reading the prompts of a batch request, given as a list or as a template with variables
+export function parseBatchPrompts(body: any): BatchPrompt[] {
+  let prompts: BatchPrompt[]
+  if (body?.template !== undefined) {
+    if (typeof body.template !== 'string') {
+      throw new ValidationError('The template must be text.')
+    }
+    const variables = body.variables
+    if (
+      !variables ||
+      typeof variables !== 'object' ||
+      Object.values(variables).some((values) => !Array.isArray(values) || values.some((value) => typeof value !== 'string'))
+    ) {
+      throw new ValidationError('Variables must map each name to a list of values.')
+    }
+    prompts = expandTemplate(body.template, variables)
+  } else if (Array.isArray(body?.prompts) && body.prompts.every((prompt: unknown) => typeof prompt === 'string')) {
+    prompts = (body.prompts as string[])
+      .map((prompt) => prompt.trim())
+      .filter(Boolean)
+      .map((prompt) => ({ prompt }))
+  } else {
+    throw new ValidationError('A batch needs a list of prompts or a template with variables.')
+  }
+
+  if (!prompts.length) {
+    throw new ValidationError('No text entered. Please enter a prompt and try again.')
+  }
+  if (prompts.length > BATCH_LIMITS.prompts) {
+    throw new ValidationError(`A batch can run at most ${BATCH_LIMITS.prompts} prompts.`)
+  }
+  if (prompts.some(({ prompt }) => prompt.length > GENERATION_LIMITS.messageLength)) {
+    throw new ValidationError(`Each prompt must be at most ${GENERATION_LIMITS.messageLength} characters long.`)
+  }
+  return prompts
+}
+
+// Validating a batch request: its prompts, and the generation parameters every prompt shares
+export function parseBatchParams(body: any): { prompts: BatchPrompt[]; params: Omit<GenerationParams, 'message'> } {
+  const prompts = parseBatchPrompts(body)
+  const { message, ...params } = parseGenerationParams({ ...body, message: prompts[0].prompt })
+  return { prompts, params }
+}
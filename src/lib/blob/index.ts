@@ -0,0 +1,24 @@
+import { localBlobStore } from './local'
+import { s3BlobStore } from './s3'
+import { BlobStore } from './types'
+
+export * from './types'
+
+// Registry of the available blob stores
+const stores: Record<string, BlobStore> = {
+  local: localBlobStore,
+  s3: s3BlobStore,
+}
+
+// Selecting the store named by BLOB_STORE, defaulting to the local filesystem
+export function getBlobStore(): BlobStore {
+  const name = process.env.BLOB_STORE ?? 'local'
+  const store = stores[name]
+  if (!store) {
+    throw new Error(`Unknown blob store "${name}".`)
+  }
+  return store
+}
+
+// Public URL our own route serves a blob from
+export const blobUrl = (key: string) => `/api/images/${key}`
@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { ValidationError } from '@/lib/errors'
+
+import { BlobStore } from './types'
+
+// Directory blobs are written to, relative to the working directory
+const root = () => path.resolve(process.env.BLOB_STORE_DIR ?? '.blob-store')
+
+// Suffix of the file a blob's content type is kept in
+const TYPE_SUFFIX = '.type'
+
+// Resolving a key inside the root, refusing keys that would escape it or name a content type file
+function resolveKey(key: string) {
+  const file = path.resolve(root(), key)
+  if (!file.startsWith(root() + path.sep) || file.endsWith(TYPE_SUFFIX)) {
+    throw new ValidationError(`Invalid blob key "${key}".`)
+  }
+  return file
+}
+
+// LocalBlobStore keeps blobs on the local filesystem, for development and tests
+export const localBlobStore: BlobStore = {
+  name: 'local',
+
+  async put(key, data, contentType) {
+    const file = resolveKey(key)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, Buffer.from(data))
+    // The content type is kept next to the blob, since file names are not trusted for it
+    await fs.writeFile(`${file}${TYPE_SUFFIX}`, contentType)
+  },
+
+  async get(key) {
+    const file = resolveKey(key)
+    try {
+      const [data, contentType] = await Promise.all([
+        fs.readFile(file),
+        fs.readFile(`${file}${TYPE_SUFFIX}`, 'utf8'),
+      ])
+      return {
+        data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength),
+        contentType,
+      }
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  },
+}
@@ -0,0 +1,47 @@
+import { AwsClient } from 'aws4fetch'
+
+import { BlobStore } from './types'
+
+// Creating the signing client lazily, so missing credentials only fail when S3 is used
+let client: AwsClient | null = null
+const getClient = () =>
+  (client ??= new AwsClient({
+    accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+    region: process.env.S3_REGION ?? 'auto',
+    service: 's3',
+  }))
+
+// Building the path-style URL of an object, which every S3-compatible service accepts
+const objectUrl = (key: string) =>
+  `${process.env.S3_ENDPOINT}/${process.env.S3_BUCKET}/${key.split('/').map(encodeURIComponent).join('/')}`
+
+// S3BlobStore keeps blobs in an S3-compatible bucket (AWS S3, Cloudflare R2, MinIO...)
+export const s3BlobStore: BlobStore = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    const response = await getClient().fetch(objectUrl(key), {
+      method: 'PUT',
+      body: data,
+      headers: { 'Content-Type': contentType },
+    })
+    if (!response.ok) {
+      throw new Error(`Failed to store blob "${key}": ${response.status} ${response.statusText}`)
+    }
+  },
+
+  async get(key) {
+    const response = await getClient().fetch(objectUrl(key))
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to read blob "${key}": ${response.status} ${response.statusText}`)
+    }
+    return {
+      data: await response.arrayBuffer(),
+      contentType: response.headers.get('Content-Type') ?? 'application/octet-stream',
+    }
+  },
+}
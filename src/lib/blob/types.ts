@@ -0,0 +1,12 @@
+// StoredBlob is an object read back from a blob store
+export interface StoredBlob {
+  data: ArrayBuffer
+  contentType: string
+}
+
+// BlobStore is the contract each storage backend implements
+export interface BlobStore {
+  name: string
+  put(key: string, data: ArrayBuffer, contentType: string): Promise<void>
+  get(key: string): Promise<StoredBlob | null>
+}
@@ -0,0 +1,334 @@
+import type { Design } from '@/lib/designs'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { getDesign, getDesigns } from '@/lib/history'
+import { kv } from '@/lib/kv'
+
+// Number of favorites returned per page when the caller does not ask for a size
+export const DEFAULT_FAVORITES_PAGE_SIZE = 24
+
+// Bounds on what an owner keeps, so a collection always loads in one request
+export const COLLECTION_LIMITS = { collections: 50, designs: 200, nameLength: 60 }
+
+// Collection is a named, ordered set of designs, such as a mood board to take to an artist
+export interface Collection {
+  id: string
+  owner: string
+  name: string
+  // Design ids in the order the owner arranged them
+  designIds: string[]
+  // Secret of the read-only share link, or null while the collection is private
+  shareToken: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+// CollectionSummary is how a collection is listed, with the first design as its cover
+export interface CollectionSummary {
+  id: string
+  name: string
+  size: number
+  cover: string | null
+  shareToken: string | null
+  updatedAt: number
+}
+
+// CollectionView is a collection with its designs loaded, as its owner or a share link sees it
+export interface CollectionView {
+  collection: Omit<Collection, 'owner'>
+  designs: Design[]
+}
+
+// CollectionUpdate holds the changes a PATCH request asks for
+export interface CollectionUpdate {
+  name?: string
+  designIds?: string[]
+  shared?: boolean
+}
+
+// Building the KV key of an owner's favorites, a sorted set of design ids scored by when they were added
+const favoritesKey = (owner: string) => `favorites:${owner}`
+
+// Building the KV key of an owner's collection index, a sorted set scored by creation time
+const indexKey = (owner: string) => `collections:${owner}`
+
+// Building the KV key of a single collection
+const collectionKey = (id: string) => `collection:${id}`
+
+// Building the KV key that resolves a share token to its collection
+const shareKey = (token: string) => `collection-share:${token}`
+
+// Checking a collection name
+export function parseCollectionName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : ''
+  if (!name) {
+    throw new ValidationError('A collection name is required.')
+  }
+  if (name.length > COLLECTION_LIMITS.nameLength) {
+    throw new ValidationError(`Collection names must be at most ${COLLECTION_LIMITS.nameLength} characters long.`)
+  }
+  return name
+}
+
+// Checking a request body that names a design
+export function parseDesignParams(body: any): string {
+  if (!body || typeof body.designId !== 'string') {
+    throw new ValidationError('A design id is required.')
+  }
+  return body.designId
+}
+
+// Checking a collection update, which may rename, reorder and share or unshare at once
+export function parseCollectionUpdate(body: any): CollectionUpdate {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('The request body must be an object.')
+  }
+  const update: CollectionUpdate = {}
+  if (body.name !== undefined) {
+    update.name = parseCollectionName(body.name)
+  }
+  if (body.designIds !== undefined) {
+    if (!Array.isArray(body.designIds) || body.designIds.some((id: unknown) => typeof id !== 'string')) {
+      throw new ValidationError('designIds must be a list of design ids.')
+    }
+    update.designIds = body.designIds
+  }
+  if (body.shared !== undefined) {
+    if (typeof body.shared !== 'boolean') {
+      throw new ValidationError('shared must be true or false.')
+    }
+    update.shared = body.shared
+  }
+  return update
+}
+
+// Making sure a design exists before it is saved anywhere
+async function requireDesign(id: string) {
+  if (!(await getDesign(id))) {
+    throw new NotFoundError('Design not found.')
+  }
+}
+
+// Listing an owner's favorites, most recently added first, starting at `cursor`
+export async function listFavorites(owner: string, cursor = 0, limit = DEFAULT_FAVORITES_PAGE_SIZE) {
+  // Fetching one extra id to learn whether another page exists
+  const ids = await kv.zrange<string[]>(favoritesKey(owner), cursor, cursor + limit, { rev: true })
+  return {
+    designs: await getDesigns(ids.slice(0, limit)),
+    nextCursor: ids.length > limit ? cursor + limit : null,
+  }
+}
+
+// Checking whether a design is one of the owner's favorites
+export async function isFavorite(owner: string, designId: string) {
+  return (await kv.zscore(favoritesKey(owner), designId)) !== null
+}
+
+// Adding a design to the owner's favorites, keeping its place when it already is one
+export async function addFavorite(owner: string, designId: string) {
+  await requireDesign(designId)
+  if (!(await isFavorite(owner, designId))) {
+    await kv.zadd(favoritesKey(owner), { score: Date.now(), member: designId })
+  }
+}
+
+// Removing a design from the owner's favorites, returning false when it was not one
+export async function removeFavorite(owner: string, designId: string) {
+  return (await kv.zrem(favoritesKey(owner), designId)) > 0
+}
+
+// Reading a collection, or null when it does not exist
+export async function getCollection(id: string) {
+  return kv.get<Collection>(collectionKey(id))
+}
+
+// Reading a collection the owner may change, treating other owners' collections as missing
+async function getOwnedCollection(owner: string, id: string) {
+  const collection = await getCollection(id)
+  if (!collection || collection.owner !== owner) {
+    throw new NotFoundError('Collection not found.')
+  }
+  return collection
+}
+
+// Storing a changed collection
+async function saveCollection(collection: Collection) {
+  const updated = { ...collection, updatedAt: Date.now() }
+  await kv.set(collectionKey(updated.id), updated)
+  return updated
+}
+
+// Hiding the owner and loading the designs, skipping ones deleted since they were added
+async function toView({ owner, ...collection }: Collection): Promise<CollectionView> {
+  return { collection, designs: await getDesigns(collection.designIds) }
+}
+
+// Reading every collection of an owner, newest first
+async function readCollections(owner: string) {
+  const ids = await kv.zrange<string[]>(indexKey(owner), 0, -1, { rev: true })
+  return ids.length
+    ? (await kv.mget<(Collection | null)[]>(...ids.map(collectionKey))).filter(
+        (collection): collection is Collection => !!collection
+      )
+    : []
+}
+
+// Listing an owner's collections, newest first, with the first design as the cover
+export async function listCollections(owner: string): Promise<CollectionSummary[]> {
+  const collections = await readCollections(owner)
+
+  // Loading every cover in one batch
+  const covers = new Map(
+    (await getDesigns(collections.map((collection) => collection.designIds[0]).filter(Boolean))).map(
+      (design) => [design.id, design.image]
+    )
+  )
+
+  return collections.map((collection) => ({
+    id: collection.id,
+    name: collection.name,
+    size: collection.designIds.length,
+    cover: covers.get(collection.designIds[0]) ?? null,
+    shareToken: collection.shareToken,
+    updatedAt: collection.updatedAt,
+  }))
+}
+
+// Loading one of the owner's collections with its designs
+export async function getCollectionView(owner: string, id: string) {
+  return toView(await getOwnedCollection(owner, id))
+}
+
+// Loading a collection through its share link, or null when the link was revoked
+export async function getSharedCollection(token: string) {
+  const id = await kv.get<string>(shareKey(token))
+  const collection = id ? await getCollection(id) : null
+  return collection && collection.shareToken === token ? toView(collection) : null
+}
+
+// Creating a collection, empty or starting with one design
+export async function createCollection(owner: string, name: string, designId?: string) {
+  if ((await kv.zcard(indexKey(owner))) >= COLLECTION_LIMITS.collections) {
+    throw new ValidationError(`You can have at most ${COLLECTION_LIMITS.collections} collections.`)
+  }
+  if (designId) {
+    await requireDesign(designId)
+  }
+
+  const now = Date.now()
+  const collection: Collection = {
+    id: crypto.randomUUID(),
+    owner,
+    name,
+    designIds: designId ? [designId] : [],
+    shareToken: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await kv.set(collectionKey(collection.id), collection)
+  await kv.zadd(indexKey(owner), { score: collection.createdAt, member: collection.id })
+  return toView(collection)
+}
+
+// Renaming, reordering and sharing a collection. A new order must hold exactly the designs already in it,
+// so adding and removing stay separate requests.
+export async function updateCollection(owner: string, id: string, update: CollectionUpdate) {
+  const collection = await getOwnedCollection(owner, id)
+  const changed = { ...collection }
+
+  if (update.name !== undefined) {
+    changed.name = update.name
+  }
+
+  if (update.designIds !== undefined) {
+    const current = new Set(collection.designIds)
+    const reordered = new Set(update.designIds)
+    if (
+      reordered.size !== update.designIds.length ||
+      reordered.size !== current.size ||
+      update.designIds.some((designId) => !current.has(designId))
+    ) {
+      throw new ValidationError('The new order must list every design in the collection once.')
+    }
+    changed.designIds = update.designIds
+  }
+
+  if (update.shared === true && !collection.shareToken) {
+    changed.shareToken = crypto.randomUUID()
+    await kv.set(shareKey(changed.shareToken), id)
+  } else if (update.shared === false && collection.shareToken) {
+    changed.shareToken = null
+    await kv.del(shareKey(collection.shareToken))
+  }
+
+  return toView(await saveCollection(changed))
+}
+
+// Deleting a collection and its share link, returning false when the owner does not own it
+export async function deleteCollection(owner: string, id: string) {
+  const collection = await getCollection(id)
+  if (!collection || collection.owner !== owner) {
+    return false
+  }
+  await kv.zrem(indexKey(owner), id)
+  await kv.del(collectionKey(id), ...(collection.shareToken ? [shareKey(collection.shareToken)] : []))
+  return true
+}
+
+// Adding a design to the end of a collection, doing nothing when it is already there
+export async function addToCollection(owner: string, id: string, designId: string) {
+  const collection = await getOwnedCollection(owner, id)
+  if (collection.designIds.includes(designId)) {
+    return toView(collection)
+  }
+  if (collection.designIds.length >= COLLECTION_LIMITS.designs) {
+    throw new ValidationError(`A collection can hold at most ${COLLECTION_LIMITS.designs} designs.`)
+  }
+  await requireDesign(designId)
+  return toView(await saveCollection({ ...collection, designIds: [...collection.designIds, designId] }))
+}
+
+// Removing a design from a collection
+export async function removeFromCollection(owner: string, id: string, designId: string) {
+  const collection = await getOwnedCollection(owner, id)
+  if (!collection.designIds.includes(designId)) {
+    throw new NotFoundError('The design is not in this collection.')
+  }
+  return toView(
+    await saveCollection({ ...collection, designIds: collection.designIds.filter((saved) => saved !== designId) })
+  )
+}
+
+// Listing the collections that hold a design, for the save dialog
+export async function listCollectionsWith(owner: string, designId: string) {
+  return (await readCollections(owner))
+    .filter((collection) => collection.designIds.includes(designId))
+    .map((collection) => collection.id)
+}
+
+// Handing every favorite and collection of one owner to another, such as a device's to the user who signs in on it
+export async function moveCollections(from: string, to: string) {
+  // Keeping the order the favorites were added in, after the ones the user already has
+  const favorites = await kv.zrange<string[]>(favoritesKey(from), 0, -1)
+  const movedAt = Date.now()
+  for (let index = 0; index < favorites.length; index++) {
+    if (!(await isFavorite(to, favorites[index]))) {
+      await kv.zadd(favoritesKey(to), { score: movedAt + index, member: favorites[index] })
+    }
+  }
+
+  // Moving the newest collections while the user has room for them, and leaving the rest with the device
+  const collections = await readCollections(from)
+  const moved = collections.slice(0, Math.max(0, COLLECTION_LIMITS.collections - (await kv.zcard(indexKey(to)))))
+  for (const collection of moved) {
+    await kv.set(collectionKey(collection.id), { ...collection, owner: to })
+    await kv.zadd(indexKey(to), { score: collection.createdAt, member: collection.id })
+  }
+  if (moved.length < collections.length) {
+    if (moved.length) {
+      await kv.zrem(indexKey(from), ...moved.map((collection) => collection.id))
+    }
+    await kv.del(favoritesKey(from))
+  } else {
+    await kv.del(favoritesKey(from), indexKey(from))
+  }
+}
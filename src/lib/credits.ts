@@ -0,0 +1,18 @@
+// Credits is a caller's remaining balance, as reported by the X-RateLimit-* headers
+export interface Credits {
+  limit: number
+  remaining: number
+  // When the balance resets, in milliseconds since the epoch
+  reset: number
+}
+
+// Reading the balance from a response's headers, or null when they are absent
+export function parseCreditHeaders(headers: Headers): Credits | null {
+  const limit = Number(headers.get('X-RateLimit-Limit'))
+  const remaining = Number(headers.get('X-RateLimit-Remaining'))
+  const reset = Number(headers.get('X-RateLimit-Reset'))
+  if (!headers.has('X-RateLimit-Limit') || [limit, remaining, reset].some((value) => !Number.isFinite(value))) {
+    return null
+  }
+  return { limit, remaining, reset }
+}
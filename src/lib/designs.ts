@@ -0,0 +1,30 @@
+import type { HistoryEntry } from '@/lib/history'
+
+// Separator between the prediction id and the output index in a design id
+const SEPARATOR = '_'
+
+// Design is a single output of a past generation, as shown on its permalink page
+export interface Design {
+  id: string
+  predictionId: string
+  index: number
+  image: string
+  prompt: string
+  style: string
+  params: HistoryEntry['params']
+  createdAt: number
+}
+
+// Building the id of one output of a prediction
+export const designId = (predictionId: string, index: number) =>
+  `${predictionId}${SEPARATOR}${index}`
+
+// Splitting a design id back into its prediction id and output index
+export function parseDesignId(id: string) {
+  const at = id.lastIndexOf(SEPARATOR)
+  const index = Number(id.slice(at + 1))
+  if (at <= 0 || !Number.isInteger(index) || index < 0) {
+    return null
+  }
+  return { predictionId: id.slice(0, at), index }
+}
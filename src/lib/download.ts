@@ -0,0 +1,27 @@
+import { readApiError } from '@/lib/errors'
+
+// downloadImage fetches a file and saves it through a temporary link, named after its content type
+export const downloadImage = async (src: string, name = 'tattoo-idea') => {
+  // Adjust for relative path, leaving data and blob URLs alone
+  if (src.startsWith('/')) {
+    src = `${window.location.origin}${src}`
+  }
+
+  const response = await fetch(src)
+  if (!response.ok) {
+    throw new Error((await readApiError(response)).message)
+  }
+  const blob = await response.blob()
+  const url = window.URL.createObjectURL(blob)
+
+  // Deriving the extension from the content type, eg. image/jpeg becomes jpg
+  const extension = (blob.type.split('/')[1] ?? 'png').replace('jpeg', 'jpg').replace(/\+.*$/, '')
+
+  const link = document.createElement('a')
+  link.href = url
+  link.setAttribute('download', `${name}.${extension}`)
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  window.URL.revokeObjectURL(url)
+}
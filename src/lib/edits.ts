@@ -0,0 +1,55 @@
+import { ValidationError } from '@/lib/errors'
+import { GENERATION_LIMITS, GenerationParams, parseGenerationParams } from '@/lib/generation'
+import { parseImageDataUrl } from '@/lib/uploads'
+
+// InpaintParams is the validated body of an /api/inpaint request
+export interface InpaintParams extends GenerationParams {
+  // Design whose output is edited
+  designId: string
+  // PNG mask as a data URL, white where the image should be repainted
+  mask: string
+}
+
+// Validating a raw request body into InpaintParams
+export function parseInpaintParams(body: any): InpaintParams {
+  // The source image comes from the design, never from the body
+  const params = parseGenerationParams({ ...body, image: undefined })
+
+  if (typeof body.designId !== 'string' || !body.designId) {
+    throw new ValidationError('Design id is required.')
+  }
+
+  const mask = parseImageDataUrl(body.mask, 'Mask')
+  if (mask.contentType !== 'image/png') {
+    throw new ValidationError('Mask must be a PNG image.')
+  }
+
+  return { ...params, designId: body.designId, mask: mask.dataUrl }
+}
+
+// How far variations may drift from the chosen output
+export const VARIATION_PROMPT_STRENGTH = 0.5
+
+// Factor outputs are upscaled by
+export const UPSCALE_FACTOR = 4
+
+// VariationParams is the validated body of an /api/variations or /api/upscale request
+export interface VariationParams {
+  designId: string
+  numOutputs?: number
+}
+
+// Validating a raw request body into VariationParams
+export function parseVariationParams(body: any): VariationParams {
+  if (!body || typeof body.designId !== 'string' || !body.designId) {
+    throw new ValidationError('Design id is required.')
+  }
+
+  const { min, max } = GENERATION_LIMITS.numOutputs
+  const numOutputs = body.numOutputs === undefined ? undefined : Number(body.numOutputs)
+  if (numOutputs !== undefined && (!Number.isInteger(numOutputs) || numOutputs < min || numOutputs > max)) {
+    throw new ValidationError(`Number of outputs must be between ${min} and ${max}.`)
+  }
+
+  return { designId: body.designId, numOutputs }
+}
@@ -0,0 +1,157 @@
+import { ProviderError } from '@/lib/providers/types'
+
+// ErrorCode tells clients what went wrong without parsing messages
+export type ErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'moderation_blocked'
+  | 'quota_exceeded'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'internal_error'
+
+// HTTP status each code is sent with
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  moderation_blocked: 422,
+  quota_exceeded: 429,
+  rate_limited: 429,
+  upstream_error: 502,
+  internal_error: 500,
+}
+
+// ApiErrorBody is the envelope every API route responds with when a request fails
+export interface ApiErrorBody {
+  error: {
+    code: ErrorCode
+    // Explanation that can be shown to the person as is
+    message: string
+    // Seconds to wait before trying again, for quota and rate limit errors
+    retryAfter?: number
+    // Extra facts about the error, such as the moderation category
+    details?: Record<string, unknown>
+  }
+}
+
+// ApiError is an error a route reports to its caller with a code
+export class ApiError extends Error {
+  code: ErrorCode
+  retryAfter?: number
+  details?: Record<string, unknown>
+  // Headers sent along with the error, such as the X-RateLimit-* values of a quota error
+  headers?: Record<string, string>
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: { retryAfter?: number; details?: Record<string, unknown>; headers?: Record<string, string> } = {}
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = code
+    this.retryAfter = options.retryAfter
+    this.details = options.details
+    this.headers = options.headers
+  }
+
+  // HTTP status the error is sent with
+  get status() {
+    return ERROR_STATUS[this.code]
+  }
+
+  // Building the response body
+  toJSON(): ApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+        ...(this.details && { details: this.details }),
+      },
+    }
+  }
+}
+
+// ValidationError is thrown when a request body breaks the schema
+export class ValidationError extends ApiError {
+  constructor(message: string) {
+    super('invalid_request', message)
+    this.name = 'ValidationError'
+  }
+}
+
+// NotFoundError is thrown when the requested prediction, design or entry does not exist
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super('not_found', message)
+    this.name = 'NotFoundError'
+  }
+}
+
+// ModerationError is thrown when a prompt or an output breaks the content policy
+export class ModerationError extends ApiError {
+  // Policy category that was matched, eg. "sexual" or "hate"
+  category: string
+
+  constructor(message: string, category: string) {
+    super('moderation_blocked', message, { details: { category } })
+    this.name = 'ModerationError'
+    this.category = category
+  }
+}
+
+// Turning anything a route caught into an ApiError, mapping provider failures to the status they deserve
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error
+  }
+  if (error instanceof ProviderError) {
+    if (error.status === 404) {
+      return new NotFoundError('Prediction not found.')
+    }
+    if (error.status === 429) {
+      return new ApiError('rate_limited', 'The image provider is busy. Please try again shortly.', { retryAfter: 10 })
+    }
+    return new ApiError('upstream_error', error.message, { details: { status: error.status } })
+  }
+  // Keeping the details of our own failures, such as storage errors, away from clients
+  return new ApiError('internal_error', 'Something went wrong on our side. Please try again.')
+}
+
+// Reading a JSON request body, refusing one that does not parse with an invalid_request error
+export async function readJsonBody(req: Request): Promise<any> {
+  try {
+    return await req.json()
+  } catch {
+    throw new ValidationError('The request body is not valid JSON.')
+  }
+}
+
+// Responding with the error envelope, a Retry-After header when there is one, the error's own headers and any extra ones
+export function errorResponse(error: unknown, headers: Record<string, string> = {}) {
+  const apiError = toApiError(error)
+  return new Response(JSON.stringify(apiError.toJSON()), {
+    status: apiError.status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiError.retryAfter !== undefined && { 'Retry-After': String(apiError.retryAfter) }),
+      ...apiError.headers,
+      ...headers,
+    },
+  })
+}
+
+// Reading the error envelope of a failed response in the browser, making one up when the body is not one
+export async function readApiError(response: Response): Promise<ApiErrorBody['error']> {
+  const body = await response.json().catch(() => null)
+  if (body?.error?.code && body?.error?.message) {
+    return body.error
+  }
+  const code = (Object.keys(ERROR_STATUS) as ErrorCode[]).find((code) => ERROR_STATUS[code] === response.status)
+  return { code: code ?? 'internal_error', message: `HTTP error! status: ${response.status}` }
+}
@@ -0,0 +1,304 @@
+import type { Design } from '@/lib/designs'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { kv } from '@/lib/kv'
+
+// Number of items returned per page when the caller does not ask for a size
+export const DEFAULT_GALLERY_PAGE_SIZE = 24
+
+// Largest page a caller may ask for
+export const MAX_GALLERY_PAGE_SIZE = 60
+
+// Bounds on the tags a design is published with
+export const GALLERY_TAG_LIMITS = { count: 5, length: 24 }
+
+// Orders the gallery can be listed in
+export const GALLERY_SORTS = ['newest', 'popular'] as const
+
+export type GallerySort = (typeof GALLERY_SORTS)[number]
+
+// Items wait in the moderation queue as pending, and only approved ones are listed
+export type GalleryStatus = 'pending' | 'approved' | 'rejected'
+
+// GalleryItem is a design its owner published, with a copy of what the gallery shows
+export interface GalleryItem {
+  // The design id, so every design is published at most once
+  id: string
+  image: string
+  prompt: string
+  style: string
+  tags: string[]
+  // History owner who published it, never sent to other callers
+  owner: string
+  authorName: string | null
+  status: GalleryStatus
+  // Counted from the set of who liked the item whenever it is read, so concurrent likes are never lost
+  likes: number
+  submittedAt: number
+  publishedAt: number | null
+}
+
+// PublicGalleryItem is how an item is shown to everyone
+export type PublicGalleryItem = Omit<GalleryItem, 'owner'>
+
+// A page of gallery items
+export interface GalleryPage {
+  items: PublicGalleryItem[]
+  nextCursor: number | null
+}
+
+// GalleryQuery is a validated listing request
+export interface GalleryQuery {
+  cursor: number
+  limit: number
+  sort: GallerySort
+  style?: string
+  tag?: string
+}
+
+// Building the KV key of a single item
+const itemKey = (id: string) => `gallery-item:${id}`
+
+// Building the KV key of the sorted set of everyone who liked an item
+const likesKey = (id: string) => `gallery-likes:${id}`
+
+// KV key of the moderation queue, a sorted set scored by submission time
+const QUEUE_KEY = 'gallery:queue'
+
+// Building the KV key of a listing index, for the whole gallery or one style or tag
+const indexKey = (sort: GallerySort, filter?: { style: string } | { tag: string }) =>
+  !filter
+    ? `gallery:${sort}`
+    : 'style' in filter
+      ? `gallery:style:${filter.style}:${sort}`
+      : `gallery:tag:${filter.tag}:${sort}`
+
+// Every index an approved item is listed in, for one sort order
+const indexKeys = (item: GalleryItem, sort: GallerySort) => [
+  indexKey(sort),
+  indexKey(sort, { style: item.style }),
+  ...item.tags.map((tag) => indexKey(sort, { tag })),
+]
+
+// Scoring an item for an order. Popular items are ranked by likes, and equal likes by recency,
+// which fits in the fraction since publish times stay below 10^13 milliseconds.
+const score = (item: GalleryItem, sort: GallerySort) =>
+  sort === 'newest' ? item.publishedAt ?? 0 : item.likes + (item.publishedAt ?? 0) / 1e13
+
+// Hiding the owner from public listings
+export const toPublicItem = ({ owner, ...item }: GalleryItem): PublicGalleryItem => item
+
+// Normalising a tag to lowercase words joined by dashes, eg. "Black & Grey" becomes "black-grey"
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+
+// Checking the tags a design is published with
+export function parseTags(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    throw new ValidationError('Tags must be a list of words.')
+  }
+  const tags = Array.from(new Set(value.map(normalizeTag).filter(Boolean)))
+  if (tags.length > GALLERY_TAG_LIMITS.count) {
+    throw new ValidationError(`Use at most ${GALLERY_TAG_LIMITS.count} tags.`)
+  }
+  if (tags.some((tag) => tag.length > GALLERY_TAG_LIMITS.length)) {
+    throw new ValidationError(`Tags must be at most ${GALLERY_TAG_LIMITS.length} characters long.`)
+  }
+  return tags
+}
+
+// Checking a publish request body
+export function parsePublishParams(body: any) {
+  if (!body || typeof body.designId !== 'string') {
+    throw new ValidationError('A design id is required.')
+  }
+  return { designId: body.designId, tags: parseTags(body.tags) }
+}
+
+// Reading the listing parameters, clamped to sane values
+export function parseGalleryQuery(searchParams: URLSearchParams): GalleryQuery {
+  const sort = searchParams.get('sort') ?? 'newest'
+  if (!(GALLERY_SORTS as readonly string[]).includes(sort)) {
+    throw new ValidationError(`Sort must be one of ${GALLERY_SORTS.join(', ')}.`)
+  }
+  return {
+    cursor: Math.max(0, Number(searchParams.get('cursor')) || 0),
+    limit: Math.min(
+      MAX_GALLERY_PAGE_SIZE,
+      Math.max(1, Number(searchParams.get('limit')) || DEFAULT_GALLERY_PAGE_SIZE)
+    ),
+    sort: sort as GallerySort,
+    style: searchParams.get('style') || undefined,
+    tag: normalizeTag(searchParams.get('tag') ?? '') || undefined,
+  }
+}
+
+// Filling in the like count of an item
+async function withLikes(item: GalleryItem): Promise<GalleryItem> {
+  return { ...item, likes: await kv.zcard(likesKey(item.id)) }
+}
+
+// Reading a single item, or null when it was never published
+export async function getGalleryItem(id: string) {
+  const item = await kv.get<GalleryItem>(itemKey(id))
+  return item && withLikes(item)
+}
+
+// Reading several items, skipping ones that were removed
+async function getGalleryItems(ids: string[]) {
+  const items = ids.length ? await kv.mget<(GalleryItem | null)[]>(...ids.map(itemKey)) : []
+  return Promise.all(items.filter((item): item is GalleryItem => !!item).map(withLikes))
+}
+
+// Adding an approved item to every listing index
+async function indexItem(item: GalleryItem) {
+  for (const sort of GALLERY_SORTS) {
+    for (const key of indexKeys(item, sort)) {
+      await kv.zadd(key, { score: score(item, sort), member: item.id })
+    }
+  }
+}
+
+// Removing an item from every listing index
+async function unindexItem(item: GalleryItem) {
+  for (const sort of GALLERY_SORTS) {
+    for (const key of indexKeys(item, sort)) {
+      await kv.zrem(key, item.id)
+    }
+  }
+}
+
+// Submitting a design to the moderation queue. Publishing again only updates the tags,
+// and a design that was rejected stays out.
+export async function publishDesign(
+  design: Design,
+  owner: string,
+  authorName: string | null,
+  tags: string[]
+): Promise<GalleryItem> {
+  const existing = await getGalleryItem(design.id)
+  if (existing?.status === 'rejected') {
+    throw new ValidationError('This design was not approved for the gallery.')
+  }
+  if (existing) {
+    if (existing.status === 'approved') {
+      await unindexItem(existing)
+    }
+    const updated = { ...existing, tags }
+    await kv.set(itemKey(updated.id), updated)
+    if (updated.status === 'approved') {
+      await indexItem(updated)
+    }
+    return updated
+  }
+
+  const item: GalleryItem = {
+    id: design.id,
+    image: design.image,
+    prompt: design.prompt,
+    style: design.style,
+    tags,
+    owner,
+    authorName,
+    status: 'pending',
+    likes: 0,
+    submittedAt: Date.now(),
+    publishedAt: null,
+  }
+  await kv.set(itemKey(item.id), item)
+  await kv.zadd(QUEUE_KEY, { score: item.submittedAt, member: item.id })
+  return item
+}
+
+// Listing approved items, starting at `cursor` in the chosen index. Filtering by both style and
+// tag reads the tag index and skips other styles, so the cursor counts scanned ids, not returned ones.
+export async function listGallery(query: GalleryQuery): Promise<GalleryPage> {
+  const key = indexKey(
+    query.sort,
+    query.tag ? { tag: query.tag } : query.style ? { style: query.style } : undefined
+  )
+  const keep = (item: GalleryItem) => !query.tag || !query.style || item.style === query.style
+
+  const items: GalleryItem[] = []
+  let cursor = query.cursor
+  // Bounding the scan, so a rare style in a popular tag cannot read the whole index at once
+  for (let batch = 0; batch < 5 && items.length < query.limit; batch++) {
+    const ids = await kv.zrange<string[]>(key, cursor, cursor + query.limit - 1, { rev: true })
+    if (!ids.length) {
+      return { items: (await Promise.all(items.map(withLikes))).map(toPublicItem), nextCursor: null }
+    }
+    // Advancing the cursor one id at a time, so ids after a full page are not skipped
+    for (const item of await kv.mget<(GalleryItem | null)[]>(...ids.map(itemKey))) {
+      cursor++
+      if (item && keep(item)) {
+        items.push(item)
+        if (items.length === query.limit) {
+          break
+        }
+      }
+    }
+  }
+
+  const more = (await kv.zrange<string[]>(key, cursor, cursor, { rev: true })).length > 0
+  return { items: (await Promise.all(items.map(withLikes))).map(toPublicItem), nextCursor: more ? cursor : null }
+}
+
+// Listing the moderation queue, oldest submission first
+export async function listGalleryQueue(cursor = 0, limit = DEFAULT_GALLERY_PAGE_SIZE) {
+  const ids = await kv.zrange<string[]>(QUEUE_KEY, cursor, cursor + limit)
+  return {
+    items: await getGalleryItems(ids.slice(0, limit)),
+    nextCursor: ids.length > limit ? cursor + limit : null,
+  }
+}
+
+// Approving or rejecting a queued item
+export async function reviewGalleryItem(id: string, approve: boolean): Promise<GalleryItem> {
+  const item = await getGalleryItem(id)
+  if (!item) {
+    throw new NotFoundError('Gallery item not found.')
+  }
+  if (item.status !== 'pending') {
+    throw new ValidationError(`This item was already ${item.status}.`)
+  }
+
+  const reviewed: GalleryItem = approve
+    ? { ...item, status: 'approved', publishedAt: Date.now() }
+    : { ...item, status: 'rejected' }
+  await kv.set(itemKey(id), reviewed)
+  await kv.zrem(QUEUE_KEY, id)
+  if (approve) {
+    await indexItem(reviewed)
+  }
+  return reviewed
+}
+
+// Taking an item out of the gallery and the queue, returning false when it does not exist
+export async function removeGalleryItem(id: string) {
+  const item = await getGalleryItem(id)
+  if (!item) {
+    return false
+  }
+  await unindexItem(item)
+  await kv.zrem(QUEUE_KEY, id)
+  await kv.del(itemKey(id), likesKey(id))
+  return true
+}
+
+// Liking an approved item once per caller, returning its new like count. The item itself is never
+// rewritten, and its popular scores move up in one step, so concurrent likes all count.
+export async function likeGalleryItem(id: string, liker: string) {
+  const item = await kv.get<GalleryItem>(itemKey(id))
+  if (!item || item.status !== 'approved') {
+    throw new NotFoundError('Gallery item not found.')
+  }
+
+  if (await kv.zadd(likesKey(id), { score: Date.now(), member: liker })) {
+    for (const key of indexKeys(item, 'popular')) {
+      await kv.zincrby(key, 1, id)
+    }
+  }
+  return kv.zcard(likesKey(id))
+}
@@ -0,0 +1,167 @@
+import { ValidationError } from '@/lib/errors'
+import type { PredictionInput } from '@/lib/providers'
+import { parseImageDataUrl } from '@/lib/uploads'
+
+// Output sizes for each supported aspect ratio, in pixels
+export const ASPECT_RATIOS = {
+  '1:1': { width: 1024, height: 1024 },
+  '4:5': { width: 896, height: 1120 },
+  '5:4': { width: 1120, height: 896 },
+  '2:3': { width: 832, height: 1248 },
+  '3:2': { width: 1248, height: 832 },
+}
+
+export type AspectRatioKey = keyof typeof ASPECT_RATIOS
+
+// Bounds enforced on every generation request
+export const GENERATION_LIMITS = {
+  messageLength: 2000,
+  negativePromptLength: 1000,
+  numOutputs: { min: 1, max: 4 },
+  guidanceScale: { min: 1, max: 20 },
+  inferenceSteps: { min: 10, max: 100 },
+  seed: { min: 0, max: 4294967295 },
+  promptStrength: { min: 0, max: 1 },
+}
+
+// GenerationParams is the validated body of a /api/prediction request
+export interface GenerationParams {
+  message: string
+  style?: string
+  negativePrompt?: string
+  seed?: number
+  numOutputs: number
+  guidanceScale: number
+  inferenceSteps: number
+  aspectRatio: AspectRatioKey
+  // Reference image as a base64 data URL, which switches to image-to-image
+  image?: string
+  // How far the output may move away from the reference image, 0 to 1
+  promptStrength?: number
+}
+
+// Values used for any parameter the caller leaves out
+export const DEFAULT_GENERATION_PARAMS: Omit<GenerationParams, 'message'> = {
+  numOutputs: 4,
+  guidanceScale: 7.5,
+  inferenceSteps: 50,
+  aspectRatio: '1:1',
+}
+
+// Prompt strength used for image-to-image when the caller leaves it out
+export const DEFAULT_PROMPT_STRENGTH = 0.8
+
+// Checking that an optional value is a number within bounds, returning the fallback when absent
+function parseNumber(
+  value: unknown,
+  name: string,
+  { min, max }: { min: number; max: number },
+  { integer = false, fallback }: { integer?: boolean; fallback?: number } = {}
+) {
+  if (value === undefined || value === null || value === '') {
+    return fallback
+  }
+  const number = Number(value)
+  if (!Number.isFinite(number) || (integer && !Number.isInteger(number))) {
+    throw new ValidationError(`${name} must be ${integer ? 'a whole number' : 'a number'}.`)
+  }
+  if (number < min || number > max) {
+    throw new ValidationError(`${name} must be between ${min} and ${max}.`)
+  }
+  return number
+}
+
+// Validating a raw request body into GenerationParams
+export function parseGenerationParams(body: any): GenerationParams {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Request body must be a JSON object.')
+  }
+
+  const message = typeof body.message === 'string' ? body.message.trim() : ''
+  if (!message) {
+    throw new ValidationError('No text entered. Please enter a prompt and try again.')
+  }
+  if (message.length > GENERATION_LIMITS.messageLength) {
+    throw new ValidationError(`Your message exceeds the ${GENERATION_LIMITS.messageLength} characters limit.`)
+  }
+
+  let negativePrompt: string | undefined
+  if (body.negativePrompt !== undefined && body.negativePrompt !== null) {
+    if (typeof body.negativePrompt !== 'string') {
+      throw new ValidationError('Negative prompt must be text.')
+    }
+    if (body.negativePrompt.length > GENERATION_LIMITS.negativePromptLength) {
+      throw new ValidationError(`Negative prompt exceeds the ${GENERATION_LIMITS.negativePromptLength} characters limit.`)
+    }
+    negativePrompt = body.negativePrompt.trim() || undefined
+  }
+
+  if (body.style !== undefined && typeof body.style !== 'string') {
+    throw new ValidationError('Style must be a style id.')
+  }
+
+  const aspectRatio = body.aspectRatio ?? DEFAULT_GENERATION_PARAMS.aspectRatio
+  if (typeof aspectRatio !== 'string' || !Object.prototype.hasOwnProperty.call(ASPECT_RATIOS, aspectRatio)) {
+    throw new ValidationError(`Aspect ratio must be one of ${Object.keys(ASPECT_RATIOS).join(', ')}.`)
+  }
+
+  // Validating the reference image's type and size
+  const image = body.image === undefined || body.image === null
+    ? undefined
+    : parseImageDataUrl(body.image, 'Reference image').dataUrl
+
+  return {
+    message,
+    style: body.style,
+    negativePrompt,
+    seed: parseNumber(body.seed, 'Seed', GENERATION_LIMITS.seed, { integer: true }),
+    numOutputs: parseNumber(body.numOutputs, 'Number of outputs', GENERATION_LIMITS.numOutputs, {
+      integer: true,
+      fallback: DEFAULT_GENERATION_PARAMS.numOutputs,
+    })!,
+    guidanceScale: parseNumber(body.guidanceScale, 'Guidance scale', GENERATION_LIMITS.guidanceScale, {
+      fallback: DEFAULT_GENERATION_PARAMS.guidanceScale,
+    })!,
+    inferenceSteps: parseNumber(body.inferenceSteps, 'Inference steps', GENERATION_LIMITS.inferenceSteps, {
+      integer: true,
+      fallback: DEFAULT_GENERATION_PARAMS.inferenceSteps,
+    })!,
+    aspectRatio: aspectRatio as AspectRatioKey,
+    image,
+    promptStrength: image
+      ? parseNumber(body.promptStrength, 'Prompt strength', GENERATION_LIMITS.promptStrength, {
+          fallback: DEFAULT_PROMPT_STRENGTH,
+        })
+      : undefined,
+  }
+}
+
+// Picking the settings a run is recorded with in the history, next to its prompt and style
+export function toHistoryParams(params: Omit<GenerationParams, 'message'>) {
+  return {
+    negativePrompt: params.negativePrompt,
+    seed: params.seed,
+    numOutputs: params.numOutputs,
+    guidanceScale: params.guidanceScale,
+    inferenceSteps: params.inferenceSteps,
+    aspectRatio: params.aspectRatio,
+    promptStrength: params.promptStrength,
+  }
+}
+
+// Mapping validated parameters onto the provider's model input
+export function toPredictionInput(params: GenerationParams, prompt: string): PredictionInput {
+  const { width, height } = ASPECT_RATIOS[params.aspectRatio]
+  return {
+    prompt,
+    negative_prompt: params.negativePrompt,
+    seed: params.seed,
+    num_outputs: params.numOutputs,
+    guidance_scale: params.guidanceScale,
+    num_inference_steps: params.inferenceSteps,
+    width,
+    height,
+    image: params.image,
+    prompt_strength: params.promptStrength,
+  }
+}
@@ -0,0 +1,164 @@
+import { Design, parseDesignId } from '@/lib/designs'
+import type { GenerationParams } from '@/lib/generation'
+import { kv } from '@/lib/kv'
+import type { Prediction, PredictionStatus } from '@/lib/providers'
+
+// Number of entries returned per page when the caller does not ask for a size
+export const DEFAULT_HISTORY_PAGE_SIZE = 24
+
+// Largest page a caller may ask for
+export const MAX_HISTORY_PAGE_SIZE = 100
+
+// HistoryEntry is one generation as remembered for its owner
+export interface HistoryEntry {
+  // The prediction id the entry was created for
+  id: string
+  owner: string
+  prompt: string
+  style: string
+  params: Omit<GenerationParams, 'message' | 'style' | 'image'> & {
+    // Stored copy of the reference image for image-to-image runs
+    referenceImage?: string
+  }
+  status: PredictionStatus
+  output: string[] | null
+  createdAt: number
+  // Prediction this one was derived from, for edits, variations and upscales
+  parentId?: string
+}
+
+// A page of history entries, newest first
+export interface HistoryPage {
+  entries: HistoryEntry[]
+  nextCursor: number | null
+}
+
+// Building the KV key of an owner's entry index, a sorted set scored by creation time
+const indexKey = (owner: string) => `history:${owner}`
+
+// Building the KV key of a single entry
+const entryKey = (id: string) => `history-entry:${id}`
+
+// Recording a new generation in its owner's history
+export async function addHistoryEntry(entry: HistoryEntry) {
+  await kv.set(entryKey(entry.id), entry)
+  await kv.zadd(indexKey(entry.owner), { score: entry.createdAt, member: entry.id })
+}
+
+// Reading a single entry, or null when it does not exist
+export async function getHistoryEntry(id: string) {
+  return kv.get<HistoryEntry>(entryKey(id))
+}
+
+// Listing an owner's history, newest first, starting at `cursor`
+export async function listHistory(
+  owner: string,
+  cursor = 0,
+  limit = DEFAULT_HISTORY_PAGE_SIZE
+): Promise<HistoryPage> {
+  // Fetching one extra id to learn whether another page exists
+  const ids = await kv.zrange<string[]>(indexKey(owner), cursor, cursor + limit, { rev: true })
+  const pageIds = ids.slice(0, limit)
+  const entries = pageIds.length
+    ? (await kv.mget<(HistoryEntry | null)[]>(...pageIds.map(entryKey))).filter(
+        (entry): entry is HistoryEntry => !!entry
+      )
+    : []
+
+  return {
+    entries,
+    nextCursor: ids.length > limit ? cursor + limit : null,
+  }
+}
+
+// Deleting an entry, returning false when the owner does not own it
+export async function deleteHistoryEntry(owner: string, id: string) {
+  const entry = await getHistoryEntry(id)
+  if (!entry || entry.owner !== owner) {
+    return false
+  }
+  await kv.zrem(indexKey(owner), id)
+  await kv.del(entryKey(id))
+  return true
+}
+
+// Handing every entry of one owner to another, such as a device's history to the user who signs in on it
+export async function moveHistory(from: string, to: string) {
+  const ids = await kv.zrange<string[]>(indexKey(from), 0, -1)
+  if (!ids.length) {
+    return
+  }
+
+  const entries = (await kv.mget<(HistoryEntry | null)[]>(...ids.map(entryKey))).filter(
+    (entry): entry is HistoryEntry => !!entry
+  )
+  for (const entry of entries) {
+    await kv.set(entryKey(entry.id), { ...entry, owner: to })
+    await kv.zadd(indexKey(to), { score: entry.createdAt, member: entry.id })
+  }
+  await kv.del(indexKey(from))
+}
+
+// Updating an entry once its prediction settles; failed and canceled runs are dropped
+export async function completeHistoryEntry(prediction: Prediction) {
+  const entry = await getHistoryEntry(prediction.id)
+  if (!entry) {
+    return
+  }
+
+  if (prediction.status !== 'succeeded') {
+    await deleteHistoryEntry(entry.owner, entry.id)
+    return
+  }
+
+  await kv.set(entryKey(entry.id), {
+    ...entry,
+    status: prediction.status,
+    output: prediction.output,
+  })
+}
+
+// Building the design of one output of an entry, or null when the entry has no such output
+function toDesign(id: string, entry: HistoryEntry | null | undefined, index: number): Design | null {
+  const image = entry?.output?.[index]
+  if (!entry || !image) {
+    return null
+  }
+
+  return {
+    id,
+    predictionId: entry.id,
+    index,
+    image,
+    prompt: entry.prompt,
+    style: entry.style,
+    params: entry.params,
+    createdAt: entry.createdAt,
+  }
+}
+
+// Loading a design from its generation's history entry, or null when it does not exist
+export async function getDesign(id: string): Promise<Design | null> {
+  const parsed = parseDesignId(id)
+  return parsed ? toDesign(id, await getHistoryEntry(parsed.predictionId), parsed.index) : null
+}
+
+// Loading several designs in the order given, skipping ones that no longer exist
+export async function getDesigns(ids: string[]): Promise<Design[]> {
+  const parsed = ids.map((id) => ({ id, design: parseDesignId(id) }))
+  const predictionIds = Array.from(new Set(parsed.map(({ design }) => design?.predictionId ?? '').filter(Boolean)))
+  if (!predictionIds.length) {
+    return []
+  }
+
+  const entries = new Map<string, HistoryEntry>()
+  for (const entry of await kv.mget<(HistoryEntry | null)[]>(...predictionIds.map(entryKey))) {
+    if (entry) {
+      entries.set(entry.id, entry)
+    }
+  }
+
+  return parsed
+    .map(({ id, design }) => design && toDesign(id, entries.get(design.predictionId), design.index))
+    .filter((design): design is Design => !!design)
+}
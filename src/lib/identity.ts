@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server'
+
+import { USER_ID_HEADER } from '@/lib/auth/session'
+import { ValidationError } from '@/lib/errors'
+
+// Cookie that identifies an anonymous browser across visits
+export const DEVICE_ID_COOKIE = 'tattoo_device_id'
+
+// Device cookies last a year
+export const DEVICE_ID_MAX_AGE = 60 * 60 * 24 * 365
+
+// Address shared by every caller whose IP address is unknown
+const UNKNOWN_IP = '127.0.0.1'
+
+// Reading how many reverse proxies in front of the app append to X-Forwarded-For, from TRUSTED_PROXY_HOPS
+function getTrustedProxyHops() {
+  const value = Number(process.env.TRUSTED_PROXY_HOPS)
+  return Number.isInteger(value) && value > 0 ? value : 0
+}
+
+// Reading the caller's IP address, which Vercel exposes as req.ip. Any client can send X-Forwarded-For, so it is
+// only read behind trusted proxies, taking the address the outermost one saw. Route handlers cannot see the
+// socket address, so without either every anonymous caller shares one address.
+export function getClientIp(req: NextRequest): string {
+  if (req.ip) {
+    return req.ip
+  }
+  const hops = getTrustedProxyHops()
+  if (hops) {
+    const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter(Boolean)
+    if (forwarded.length >= hops) {
+      return forwarded[forwarded.length - hops]
+    }
+  }
+  return UNKNOWN_IP
+}
+
+// Reading the anonymous device id set by the middleware
+export function getDeviceId(req: NextRequest): string | null {
+  return req.cookies.get(DEVICE_ID_COOKIE)?.value ?? null
+}
+
+// Reading the signed-in user's id, which the middleware sets after verifying the session cookie
+export function getUserId(req: NextRequest): string | null {
+  return req.headers.get(USER_ID_HEADER)
+}
+
+// Resolving who owns the data created by a request, preferring the signed-in user over the device
+export function getOwnerId(req: NextRequest): string | null {
+  const userId = getUserId(req)
+  if (userId) {
+    return `user:${userId}`
+  }
+  const deviceId = getDeviceId(req)
+  return deviceId ? `device:${deviceId}` : null
+}
+
+// Resolving the owner for requests that save something, which needs the device cookie at least
+export function requireOwnerId(req: NextRequest): string {
+  const owner = getOwnerId(req)
+  if (!owner) {
+    throw new ValidationError('Please enable cookies to save designs.')
+  }
+  return owner
+}
+
+// Resolving who rate limits apply to, so signed-in users are not limited together with everyone behind their IP.
+// Both kinds are prefixed, so no address can pass for a user.
+export function getRatelimitIdentifier(req: NextRequest): string {
+  const userId = getUserId(req)
+  return userId ? `user:${userId}` : `ip:${getClientIp(req)}`
+}
@@ -0,0 +1,98 @@
+import { blobUrl, getBlobStore } from '@/lib/blob'
+import { screenImage } from '@/lib/moderation'
+import { Prediction } from '@/lib/providers'
+import { parseImageDataUrl } from '@/lib/uploads'
+
+// File extensions for the image types models return
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+// Only remote URLs need copying; relative ones are already served by us
+const isRemote = (url: string) => /^https?:\/\//.test(url)
+
+// Message of a prediction whose every output was withheld by the NSFW check
+const WITHHELD_MESSAGE = 'The generated images were flagged as unsafe and withheld. Please try a different prompt.'
+
+// Copying a single output into the blob store, returning its stable URL,
+// or null when the NSFW check flags it and it is never stored
+async function ingestOutput(predictionId: string, index: number, url: string) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download output ${url}: ${response.status}`)
+  }
+
+  const contentType = response.headers.get('Content-Type') ?? 'image/png'
+  const data = await response.arrayBuffer()
+
+  const verdict = await screenImage(contentType, Buffer.from(data))
+  if (verdict.flagged) {
+    return null
+  }
+
+  const key = `predictions/${predictionId}/${index}.${EXTENSIONS[contentType] ?? 'png'}`
+  await getBlobStore().put(key, data, contentType)
+  return blobUrl(key)
+}
+
+// Copying a succeeded prediction's outputs into our own storage, before the provider's links expire.
+// Flagged outputs are dropped, and a prediction left without any fails instead.
+export async function ingestPrediction(prediction: Prediction): Promise<Prediction> {
+  if (prediction.status !== 'succeeded' || !prediction.output) {
+    return prediction
+  }
+
+  const output = (
+    await Promise.all(
+      prediction.output.map((url, index) =>
+        isRemote(url) ? ingestOutput(prediction.id, index, url) : url
+      )
+    )
+  ).filter((url): url is string => !!url)
+
+  if (!output.length && prediction.output.length) {
+    return { ...prediction, status: 'failed', output: null, error: WITHHELD_MESSAGE }
+  }
+  return { ...prediction, output }
+}
+
+// Keeping an uploaded image in the blob store under `path`, returning its stable URL
+export async function storeUploadedImage(path: string, dataUrl: string) {
+  const { contentType, bytes } = parseImageDataUrl(dataUrl)
+  const key = `${path}.${EXTENSIONS[contentType] ?? 'png'}`
+  await getBlobStore().put(
+    key,
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+    contentType
+  )
+  return blobUrl(key)
+}
+
+// Loading one of our images, reading ingested outputs straight from the blob store
+export async function loadImage(url: string, origin: string) {
+  if (url.startsWith(blobUrl(''))) {
+    const blob = await getBlobStore().get(url.slice(blobUrl('').length))
+    if (!blob) {
+      throw new Error(`Image ${url} not found.`)
+    }
+    return { contentType: blob.contentType, data: Buffer.from(blob.data) }
+  }
+
+  const response = await fetch(isRemote(url) ? url : `${origin}${url}`)
+  if (!response.ok) {
+    throw new Error(`Failed to download image ${url}: ${response.status}`)
+  }
+  return {
+    contentType: response.headers.get('Content-Type') ?? 'image/png',
+    data: Buffer.from(await response.arrayBuffer()),
+  }
+}
+
+// Loading one of our images as a data URL, so it can be sent to a model that cannot reach us
+export async function loadImageAsDataUrl(url: string, origin: string) {
+  const { contentType, data } = await loadImage(url, origin)
+  return `data:${contentType};base64,${data.toString('base64')}`
+}
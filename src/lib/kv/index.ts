@@ -0,0 +1,16 @@
+import { memoryKvStore } from './memory'
+import { vercelKvStore } from './vercel'
+import { KeyValueStore } from './types'
+
+export * from './types'
+
+// Vercel KV is used whenever it is configured
+export const hasVercelKv = () => !!process.env.KV_REST_API_URL && !!process.env.KV_REST_API_TOKEN
+
+// Selecting Vercel KV when its environment variables are set, and the in-memory store otherwise
+export function getKvStore(): KeyValueStore {
+  return hasVercelKv() ? vercelKvStore : memoryKvStore
+}
+
+// The store every KV consumer reads and writes through
+export const kv = getKvStore()
@@ -0,0 +1,246 @@
+import { readFileSync, promises as fs } from 'fs'
+import path from 'path'
+
+import { KeyValueStore } from './types'
+
+// Entry is one key, holding either a JSON value or a sorted set of member scores
+type Entry =
+  | { type: 'value'; value: string; expiresAt?: number }
+  | { type: 'zset'; members: Record<string, number>; expiresAt?: number }
+
+// State is everything the store holds, shared by every route of the server process
+interface State {
+  entries: Map<string, Entry>
+  // Pending write of the backing file, so writes never overlap
+  saving: Promise<void>
+}
+
+// Key the state is kept under on globalThis, since Next.js bundles each route separately
+const STATE_KEY = Symbol.for('tattoo-ideas.kv')
+
+// Optional JSON file the store is loaded from and saved to, so data survives restarts
+const file = () => (process.env.KV_STORE_FILE ? path.resolve(process.env.KV_STORE_FILE) : null)
+
+// Reading the backing file, starting empty when there is none yet
+function load(): Map<string, Entry> {
+  const source = file()
+  if (!source) {
+    return new Map()
+  }
+  try {
+    return new Map(Object.entries(JSON.parse(readFileSync(source, 'utf8'))))
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return new Map()
+    }
+    throw error
+  }
+}
+
+// Getting the process-wide state, loading it on first use
+function state(): State {
+  const global = globalThis as typeof globalThis & { [STATE_KEY]?: State }
+  global[STATE_KEY] ??= { entries: load(), saving: Promise.resolve() }
+  return global[STATE_KEY]
+}
+
+// Writing the entries to the backing file after a change, when one is configured
+function save() {
+  const target = file()
+  if (!target) {
+    return Promise.resolve()
+  }
+  const current = state()
+  current.saving = current.saving
+    .catch(() => undefined)
+    .then(async () => {
+      const now = Date.now()
+      const live = Array.from(current.entries).filter(([, entry]) => !isExpired(entry, now))
+      // Writing a temporary file first so a crash never leaves half a file behind
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(`${target}.tmp`, JSON.stringify(Object.fromEntries(live)))
+      await fs.rename(`${target}.tmp`, target)
+    })
+  return current.saving
+}
+
+// Checking sorted set membership without tripping over inherited names like "constructor"
+const hasMember = (members: Record<string, number>, member: string) =>
+  Object.prototype.hasOwnProperty.call(members, member)
+
+const isExpired = (entry: Entry, now = Date.now()) => entry.expiresAt !== undefined && entry.expiresAt <= now
+
+// Reading a live entry, dropping it when it has expired
+function read(key: string) {
+  const { entries } = state()
+  const entry = entries.get(key)
+  if (entry && isExpired(entry)) {
+    entries.delete(key)
+    return undefined
+  }
+  return entry
+}
+
+// Reading a live sorted set, failing like Redis when the key holds a plain value
+function readZset(key: string): Extract<Entry, { type: 'zset' }> | undefined {
+  const entry = read(key)
+  if (entry && entry.type !== 'zset') {
+    throw new Error(`WRONGTYPE Key "${key}" does not hold a sorted set.`)
+  }
+  return entry
+}
+
+// Parsing a stored value, which is always JSON
+function parse<T>(entry: Entry | undefined): T | null {
+  if (!entry) {
+    return null
+  }
+  if (entry.type !== 'value') {
+    throw new Error('WRONGTYPE Key does not hold a value.')
+  }
+  return JSON.parse(entry.value) as T
+}
+
+// Adding to a stored integer, keeping its expiry
+async function addTo(key: string, by: number) {
+  const entry = read(key)
+  const current = parse<unknown>(entry) ?? 0
+  if (!Number.isInteger(current)) {
+    throw new Error(`ERR Value of "${key}" is not an integer.`)
+  }
+  const next = (current as number) + by
+  state().entries.set(key, { type: 'value', value: JSON.stringify(next), expiresAt: entry?.expiresAt })
+  await save()
+  return next
+}
+
+// MemoryKvStore keeps data in the server process, for development and tests without Vercel KV.
+// Set KV_STORE_FILE to keep it in a JSON file across restarts.
+export const memoryKvStore: KeyValueStore = {
+  name: 'memory',
+
+  async get<T>(key: string) {
+    return parse<T>(read(key))
+  },
+
+  async set(key, value, options) {
+    if (options?.nx && read(key)) {
+      return false
+    }
+    const ttl = options?.px ?? (options?.ex !== undefined ? options.ex * 1000 : undefined)
+    state().entries.set(key, {
+      type: 'value',
+      value: JSON.stringify(value),
+      expiresAt: ttl !== undefined ? Date.now() + ttl : undefined,
+    })
+    await save()
+    return true
+  },
+
+  async getdel<T>(key: string) {
+    const value = parse<T>(read(key))
+    if (value !== null) {
+      state().entries.delete(key)
+      await save()
+    }
+    return value
+  },
+
+  async mget<T extends unknown[]>(...keys: string[]) {
+    return keys.map((key) => parse(read(key))) as T
+  },
+
+  async del(...keys) {
+    const deleted = keys.filter((key) => read(key) && state().entries.delete(key)).length
+    if (deleted) {
+      await save()
+    }
+    return deleted
+  },
+
+  async delIfEquals(key, value) {
+    if (parse(read(key)) !== value) {
+      return false
+    }
+    state().entries.delete(key)
+    await save()
+    return true
+  },
+
+  incrby: (key, increment) => addTo(key, increment),
+  decrby: (key, decrement) => addTo(key, -decrement),
+
+  async pexpireat(key, at) {
+    const entry = read(key)
+    if (!entry) {
+      return false
+    }
+    entry.expiresAt = at
+    await save()
+    return true
+  },
+
+  async zadd(key, ...members) {
+    const entry = readZset(key) ?? { type: 'zset' as const, members: {} }
+    const added = members.filter(({ member }) => !hasMember(entry.members, member)).length
+    for (const { score, member } of members) {
+      entry.members[member] = score
+    }
+    state().entries.set(key, entry)
+    await save()
+    return added
+  },
+
+  async zincrby(key, increment, member) {
+    const entry = readZset(key) ?? { type: 'zset' as const, members: {} }
+    entry.members[member] = (hasMember(entry.members, member) ? entry.members[member] : 0) + increment
+    state().entries.set(key, entry)
+    await save()
+    return entry.members[member]
+  },
+
+  async zrange<T extends unknown[]>(key: string, start: number, stop: number, options?: { rev?: boolean }) {
+    const entry = readZset(key)
+    if (!entry) {
+      return [] as unknown as T
+    }
+    // Ordering like Redis: by score, then by member
+    const members = Object.entries(entry.members)
+      .sort(([a, scoreA], [b, scoreB]) => scoreA - scoreB || (a < b ? -1 : a > b ? 1 : 0))
+      .map(([member]) => member)
+    if (options?.rev) {
+      members.reverse()
+    }
+    const from = start < 0 ? Math.max(0, members.length + start) : start
+    const to = stop < 0 ? members.length + stop : stop
+    return members.slice(from, to + 1) as T
+  },
+
+  async zrem(key, ...members) {
+    const entry = readZset(key)
+    if (!entry) {
+      return 0
+    }
+    const removed = members.filter((member) => hasMember(entry.members, member))
+    for (const member of removed) {
+      delete entry.members[member]
+    }
+    if (!Object.keys(entry.members).length) {
+      state().entries.delete(key)
+    }
+    if (removed.length) {
+      await save()
+    }
+    return removed.length
+  },
+
+  async zcard(key) {
+    const entry = readZset(key)
+    return entry ? Object.keys(entry.members).length : 0
+  },
+
+  async zscore(key, member) {
+    const entry = readZset(key)
+    return entry && hasMember(entry.members, member) ? entry.members[member] : null
+  },
+}
@@ -0,0 +1,42 @@
+// SetOptions expire a value after `ex` seconds or `px` milliseconds, and with `nx` only write a key that does not exist
+export interface SetOptions {
+  ex?: number
+  px?: number
+  nx?: boolean
+}
+
+// ScoreMember is one member of a sorted set with its score
+export interface ScoreMember {
+  score: number
+  member: string
+}
+
+// KeyValueStore is the subset of Redis commands the app relies on, which each backend implements.
+// Values are stored as JSON, so they read back as the objects, strings and numbers that were written.
+export interface KeyValueStore {
+  name: string
+  get<T>(key: string): Promise<T | null>
+  // Writing a value, returning false when `nx` is set and the key already exists
+  set<T>(key: string, value: T, options?: SetOptions): Promise<boolean>
+  getdel<T>(key: string): Promise<T | null>
+  mget<T extends unknown[]>(...keys: string[]): Promise<T>
+  // Deleting keys, returning how many existed
+  del(...keys: string[]): Promise<number>
+  // Deleting a key only while it still holds `value`, in one step, returning whether it was deleted
+  delIfEquals(key: string, value: string): Promise<boolean>
+  incrby(key: string, increment: number): Promise<number>
+  decrby(key: string, decrement: number): Promise<number>
+  // Expiring a key at a time in milliseconds since the epoch, returning false when it does not exist
+  pexpireat(key: string, at: number): Promise<boolean>
+  // Adding members to a sorted set, returning how many were new
+  zadd(key: string, ...members: ScoreMember[]): Promise<number>
+  // Adding to a member's score in one step, adding the member when it is missing, and returning the new score
+  zincrby(key: string, increment: number, member: string): Promise<number>
+  // Listing members by rank, lowest score first unless `rev` is set; `stop` is inclusive and may be negative
+  zrange<T extends unknown[]>(key: string, start: number, stop: number, options?: { rev?: boolean }): Promise<T>
+  zrem(key: string, ...members: string[]): Promise<number>
+  // Counting the members of a sorted set
+  zcard(key: string): Promise<number>
+  // Reading a member's score, or null when it is not in the sorted set
+  zscore(key: string, member: string): Promise<number | null>
+}
@@ -0,0 +1,62 @@
+import { kv } from '@vercel/kv'
+
+import { KeyValueStore } from './types'
+
+// Script that deletes a key only while it holds the given value, since Redis has no such command
+const DEL_IF_EQUALS_SCRIPT =
+  "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end"
+
+// VercelKvStore talks to Vercel KV, configured with the KV_REST_API_* environment variables
+export const vercelKvStore: KeyValueStore = {
+  name: 'vercel',
+
+  get<T>(key: string) {
+    return kv.get<T>(key)
+  },
+
+  async set(key, value, options) {
+    const expiry = options?.ex ? { ex: options.ex } : options?.px ? { px: options.px } : {}
+    // Redis answers null instead of OK when `nx` kept it from writing
+    const result = options?.nx ? await kv.set(key, value, { ...expiry, nx: true }) : await kv.set(key, value, expiry)
+    return result !== null
+  },
+
+  getdel<T>(key: string) {
+    return kv.getdel<T>(key)
+  },
+
+  mget<T extends unknown[]>(...keys: string[]) {
+    return kv.mget<T>(...keys)
+  },
+
+  del: (...keys) => kv.del(...keys),
+
+  async delIfEquals(key, value) {
+    return (await kv.eval<[string], number>(DEL_IF_EQUALS_SCRIPT, [key], [value])) === 1
+  },
+
+  incrby: (key, increment) => kv.incrby(key, increment),
+  decrby: (key, decrement) => kv.decrby(key, decrement),
+
+  async pexpireat(key, at) {
+    return (await kv.pexpireat(key, at)) === 1
+  },
+
+  async zadd(key, ...members) {
+    if (!members.length) {
+      return 0
+    }
+    const [first, ...rest] = members
+    return (await kv.zadd(key, first, ...rest)) ?? 0
+  },
+
+  zincrby: (key, increment, member) => kv.zincrby(key, increment, member),
+
+  zrange<T extends unknown[]>(key: string, start: number, stop: number, options?: { rev?: boolean }) {
+    return options?.rev ? kv.zrange<T>(key, start, stop, { rev: true }) : kv.zrange<T>(key, start, stop)
+  },
+
+  zrem: (key, ...members) => kv.zrem(key, ...members),
+  zcard: (key) => kv.zcard(key),
+  zscore: (key, member) => kv.zscore(key, member),
+}
@@ -0,0 +1,21 @@
+// Tasks that may run on a different model than plain text-to-image
+export type ModelTask = 'txt2img' | 'img2img' | 'inpaint' | 'upscale'
+
+// Environment variables naming the Replicate model version for each task
+const VERSION_ENV: Record<ModelTask, string> = {
+  txt2img: 'REPLICATE_MODEL_VERSION',
+  img2img: 'REPLICATE_IMG2IMG_VERSION',
+  inpaint: 'REPLICATE_INPAINT_VERSION',
+  upscale: 'REPLICATE_UPSCALE_VERSION',
+}
+
+// Versions used for tasks the default model cannot run, when the environment does not name one
+const DEFAULT_VERSIONS: Partial<Record<ModelTask, string>> = {
+  // nightmareai/real-esrgan
+  upscale: '42fed1c4974146d4d2414e2be2c5277c7fcf05fcc3a73abf41610695738c1d7b',
+}
+
+// Resolving the model version for a task, or undefined to use the provider's default
+export function getModelVersion(task: ModelTask): string | undefined {
+  return process.env[VERSION_ENV[task]] || DEFAULT_VERSIONS[task]
+}
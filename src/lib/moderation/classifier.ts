@@ -0,0 +1,72 @@
+import { ApiError } from '@/lib/errors'
+
+import { ModerationVerdict, ALLOWED } from './types'
+
+// Classifiers get this long to answer before they count as failed
+const CLASSIFIER_TIMEOUT_MS = 5000
+
+// Reading a classifier's answer. Both a plain { flagged, category } body and the
+// OpenAI moderation shape, { results: [{ flagged, categories: { name: boolean } }] }, are understood.
+function parseVerdict(body: any, fallbackCategory: string): ModerationVerdict {
+  const result = Array.isArray(body?.results) ? body.results[0] : body
+  if (!result?.flagged && !result?.nsfw) {
+    return ALLOWED
+  }
+
+  const category =
+    (typeof result.category === 'string' && result.category) ||
+    Object.keys(result.categories ?? {}).find((name) => result.categories[name] === true) ||
+    fallbackCategory
+  return { flagged: true, category }
+}
+
+// Asking the classifier at `url` about a JSON payload, throwing when it cannot be reached, times out or fails
+async function classify(url: string, payload: object, fallbackCategory: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.MODERATION_CLASSIFIER_TOKEN
+        ? { Authorization: `Bearer ${process.env.MODERATION_CLASSIFIER_TOKEN}` }
+        : {}),
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`Moderation classifier ${url} failed: status ${response.status}`)
+  }
+  return parseVerdict(await response.json(), fallbackCategory)
+}
+
+// Classifying a prompt with MODERATION_CLASSIFIER_URL, when one is configured. The rules have already
+// checked the prompt, so a classifier that fails is treated as having no objection.
+export async function classifyText(text: string): Promise<ModerationVerdict> {
+  const url = process.env.MODERATION_CLASSIFIER_URL
+  if (!url) {
+    return ALLOWED
+  }
+  try {
+    return await classify(url, { input: text }, 'classifier')
+  } catch {
+    return ALLOWED
+  }
+}
+
+// Classifying an image with MODERATION_IMAGE_CLASSIFIER_URL. Nothing else checks outputs, so screening fails
+// closed: production needs a classifier, and one that fails holds the image back, leaving the prediction
+// unsaved until a later poll or webhook tries again.
+export async function classifyImage(contentType: string, data: Buffer): Promise<ModerationVerdict> {
+  const url = process.env.MODERATION_IMAGE_CLASSIFIER_URL
+  if (!url) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new ApiError('internal_error', 'Image screening is not configured.')
+    }
+    return ALLOWED
+  }
+  try {
+    return await classify(url, { image: `data:${contentType};base64,${data.toString('base64')}` }, 'nsfw')
+  } catch {
+    throw new ApiError('upstream_error', 'The image safety check is unavailable. Please try again in a moment.')
+  }
+}
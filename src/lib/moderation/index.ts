@@ -0,0 +1,33 @@
+import { ModerationError } from '@/lib/errors'
+
+import { classifyImage, classifyText } from './classifier'
+import { checkRules } from './rules'
+import { ModerationVerdict } from './types'
+
+export * from './types'
+export { DEFAULT_RULES } from './rules'
+
+// What a blocked prompt is told, by category
+const CATEGORY_MESSAGES: Record<string, string> = {
+  sexual: 'This prompt asks for sexual content, which is not allowed.',
+  minors: 'This prompt asks for sexual content involving minors, which is not allowed.',
+  hate: 'This prompt asks for hate symbols or slogans, which are not allowed.',
+}
+
+// Explaining a blocked prompt, with a generic message for custom categories
+export const moderationMessage = (category: string) =>
+  CATEGORY_MESSAGES[category] ?? 'This prompt breaks our content policy. Please try a different one.'
+
+// Checking a prompt with the rules, then the classifier, and throwing a ModerationError when either objects
+export async function moderatePrompt(text: string) {
+  let verdict: ModerationVerdict = checkRules(text)
+  if (!verdict.flagged) {
+    verdict = await classifyText(text)
+  }
+  if (verdict.flagged) {
+    throw new ModerationError(moderationMessage(verdict.category), verdict.category)
+  }
+}
+
+// Screening a generated image before it is stored or shown
+export const screenImage = (contentType: string, data: Buffer) => classifyImage(contentType, data)
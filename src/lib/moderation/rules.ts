@@ -0,0 +1,101 @@
+import { readFileSync } from 'fs'
+
+import { ModerationRule, ModerationVerdict, ALLOWED } from './types'
+
+// Rules every deployment starts with. Violent imagery such as skulls, daggers and blood
+// is a staple of tattoo art, so only sexual content and hate symbols are blocked by default.
+export const DEFAULT_RULES: ModerationRule[] = [
+  {
+    category: 'sexual',
+    terms: [
+      'nsfw', 'porn', 'porno', 'pornographic', 'hentai', 'explicit sex', 'sex act', 'intercourse',
+      'nude', 'nudes', 'naked', 'topless', 'genitals', 'penis', 'vagina', 'nipples', 'erection',
+      'orgasm', 'masturbating', 'masturbation', 'blowjob', 'fellatio', 'cunnilingus',
+    ],
+  },
+  {
+    // Anything sexual next to anyone young is refused, whatever the wording
+    category: 'minors',
+    pattern:
+      '\\b(child|children|kid|kids|minor|minors|underage|teen|teenage|toddler|loli|shota|schoolgirl|schoolboy)\\b' +
+      '.{0,40}\\b(sex|sexy|sexual|nude|naked|erotic|seductive|lingerie)\\b' +
+      '|\\b(sex|sexy|sexual|nude|naked|erotic|seductive|lingerie)\\b' +
+      '.{0,40}\\b(child|children|kid|kids|minor|minors|underage|teen|teenage|toddler|loli|shota|schoolgirl|schoolboy)\\b',
+  },
+  {
+    category: 'hate',
+    terms: [
+      'white power', 'white pride worldwide', 'sieg heil', 'heil hitler', 'ss bolts', 'totenkopf ss',
+      'blood and honour', 'blood and honor', 'kkk', 'ku klux klan', 'aryan brotherhood', '1488',
+    ],
+  },
+]
+
+// Rule with its matcher compiled
+interface CompiledRule {
+  category: string
+  test(text: string, words: string): boolean
+}
+
+// Reducing text to lowercase words separated by single spaces, without accents,
+// so "N.S.F.W", "Nüde" and "nude!" all read as plain words
+export function normalizeText(text: string) {
+  return ` ${text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(?<=\b\w)\.(?=\w\b)/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()} `
+}
+
+// Compiling a rule, failing loudly on a broken pattern so a typo cannot disable moderation
+function compileRule(rule: ModerationRule): CompiledRule {
+  const terms = (rule.terms ?? []).map(normalizeText).filter((term) => term.trim())
+  const pattern = rule.pattern ? new RegExp(rule.pattern, 'i') : null
+  return {
+    category: rule.category,
+    test: (text, words) =>
+      terms.some((term) => words.includes(term)) || !!pattern?.test(text.toLowerCase()),
+  }
+}
+
+// Reading the rules this deployment adds: MODERATION_BLOCKLIST is a comma separated list of
+// terms, and MODERATION_RULES_FILE a JSON file holding an array of rules
+function configuredRules(): ModerationRule[] {
+  const rules: ModerationRule[] = []
+
+  const blocklist = (process.env.MODERATION_BLOCKLIST ?? '')
+    .split(',')
+    .map((term) => term.trim())
+    .filter(Boolean)
+  if (blocklist.length) {
+    rules.push({ category: 'blocklist', terms: blocklist })
+  }
+
+  if (process.env.MODERATION_RULES_FILE) {
+    const parsed = JSON.parse(readFileSync(process.env.MODERATION_RULES_FILE, 'utf8'))
+    if (!Array.isArray(parsed) || parsed.some((rule) => typeof rule?.category !== 'string')) {
+      throw new Error('MODERATION_RULES_FILE must hold an array of rules with a category.')
+    }
+    rules.push(...parsed)
+  }
+
+  return rules
+}
+
+// Compiled rules, built on first use
+let compiled: CompiledRule[] | null = null
+
+// Getting the compiled rules, defaults first
+function getRules() {
+  compiled ??= [...DEFAULT_RULES, ...configuredRules()].map(compileRule)
+  return compiled
+}
+
+// Checking text against every rule, reporting the first category that matches
+export function checkRules(text: string): ModerationVerdict {
+  const words = normalizeText(text)
+  const rule = getRules().find((rule) => rule.test(text, words))
+  return rule ? { flagged: true, category: rule.category } : ALLOWED
+}
@@ -0,0 +1,16 @@
+// ModerationRule flags text in a category when any of its terms or its pattern matches.
+// Terms match whole words and phrases, ignoring case, accents and punctuation.
+export interface ModerationRule {
+  category: string
+  terms?: string[]
+  // Regular expression source, matched against the lowercased text
+  pattern?: string
+}
+
+// ModerationVerdict is what a check concludes about a prompt or an image
+export type ModerationVerdict =
+  | { flagged: false }
+  | { flagged: true; category: string }
+
+// Verdict for content nothing objected to
+export const ALLOWED: ModerationVerdict = { flagged: false }
@@ -0,0 +1,168 @@
+// Body-part photos a design can be previewed on
+export const PLACEMENT_TEMPLATES = [
+  { id: 'forearm', name: 'Forearm', src: '/placements/forearm.svg', x: 0.5, y: 0.45, scale: 0.28 },
+  { id: 'shoulder', name: 'Shoulder', src: '/placements/shoulder.svg', x: 0.52, y: 0.45, scale: 0.4 },
+  { id: 'back', name: 'Back', src: '/placements/back.svg', x: 0.5, y: 0.45, scale: 0.5 },
+  { id: 'calf', name: 'Calf', src: '/placements/calf.svg', x: 0.5, y: 0.42, scale: 0.3 },
+] as const
+
+export type PlacementTemplateId = (typeof PLACEMENT_TEMPLATES)[number]['id']
+
+// PlacementTransform positions a design on the body photo
+export interface PlacementTransform {
+  // Centre of the design, as a fraction of the photo's width and height
+  x: number
+  y: number
+  // Width of the design as a fraction of the photo's width
+  scale: number
+  // Rotation in degrees
+  rotation: number
+  // Perspective tilt, -1 to 1, around the horizontal and vertical axes
+  tiltX: number
+  tiltY: number
+  // How strongly the ink shows through the skin, 0 to 1
+  opacity: number
+}
+
+// Values used before the user moves anything
+export const DEFAULT_PLACEMENT: PlacementTransform = {
+  x: 0.5,
+  y: 0.5,
+  scale: 0.4,
+  rotation: 0,
+  tiltX: 0,
+  tiltY: 0,
+  opacity: 0.85,
+}
+
+// How much a full tilt narrows the far edge of the design
+const TILT_STRENGTH = 0.5
+
+// Cells per side of the mesh the design is warped with
+const MESH_SIZE = 16
+
+// Longest side of the composited image, in pixels
+export const MAX_PREVIEW_SIZE = 1200
+
+type Point = { x: number; y: number }
+
+// Corners of the design on the photo, clockwise from the top left
+function placementCorners(transform: PlacementTransform, canvas: Point, aspect: number): Point[] {
+  const width = transform.scale * canvas.x
+  const height = width / aspect
+  const top = (width / 2) * (1 - transform.tiltX * TILT_STRENGTH)
+  const bottom = (width / 2) * (1 + transform.tiltX * TILT_STRENGTH)
+  const left = (height / 2) * (1 - transform.tiltY * TILT_STRENGTH)
+  const right = (height / 2) * (1 + transform.tiltY * TILT_STRENGTH)
+
+  const angle = (transform.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const centre = { x: transform.x * canvas.x, y: transform.y * canvas.y }
+
+  return [
+    { x: -top, y: -left },
+    { x: top, y: -right },
+    { x: bottom, y: right },
+    { x: -bottom, y: left },
+  ].map(({ x, y }) => ({
+    x: centre.x + x * cos - y * sin,
+    y: centre.y + x * sin + y * cos,
+  }))
+}
+
+// Building the projective mapping from the unit square onto a quadrilateral
+function squareToQuad([p0, p1, p2, p3]: Point[]) {
+  const dx1 = p1.x - p2.x
+  const dx2 = p3.x - p2.x
+  const dx3 = p0.x - p1.x + p2.x - p3.x
+  const dy1 = p1.y - p2.y
+  const dy2 = p3.y - p2.y
+  const dy3 = p0.y - p1.y + p2.y - p3.y
+
+  const det = dx1 * dy2 - dx2 * dy1
+  const g = dx3 === 0 && dy3 === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / det
+  const h = dx3 === 0 && dy3 === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / det
+
+  const a = p1.x - p0.x + g * p1.x
+  const b = p3.x - p0.x + h * p3.x
+  const d = p1.y - p0.y + g * p1.y
+  const e = p3.y - p0.y + h * p3.y
+
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w }
+  }
+}
+
+// Drawing one triangle of the source image onto a triangle of the canvas
+function drawTriangle(
+  context: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  [s0, s1, s2]: Point[],
+  [d0, d1, d2]: Point[]
+) {
+  const denominator = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y)
+  if (denominator === 0) {
+    return
+  }
+  const m11 = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / denominator
+  const m12 = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / denominator
+  const m21 = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / denominator
+  const m22 = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / denominator
+
+  // Growing the clip slightly so neighbouring triangles leave no hairline seams
+  const centre = { x: (d0.x + d1.x + d2.x) / 3, y: (d0.y + d1.y + d2.y) / 3 }
+  const grow = (point: Point) => {
+    const length = Math.hypot(point.x - centre.x, point.y - centre.y) || 1
+    return { x: point.x + ((point.x - centre.x) / length) * 0.5, y: point.y + ((point.y - centre.y) / length) * 0.5 }
+  }
+
+  context.save()
+  context.beginPath()
+  for (const point of [d0, d1, d2].map(grow)) {
+    context.lineTo(point.x, point.y)
+  }
+  context.closePath()
+  context.clip()
+  context.transform(m11, m21, m12, m22, d0.x - m11 * s0.x - m12 * s0.y, d0.y - m21 * s0.x - m22 * s0.y)
+  context.drawImage(image, 0, 0)
+  context.restore()
+}
+
+// Compositing a design onto a body photo, warped by a mesh and multiplied into the skin
+export function drawPlacement(
+  context: CanvasRenderingContext2D,
+  photo: HTMLImageElement,
+  design: HTMLImageElement,
+  transform: PlacementTransform
+) {
+  const { width, height } = context.canvas
+  const source = { x: design.naturalWidth, y: design.naturalHeight }
+  const map = squareToQuad(placementCorners(transform, { x: width, y: height }, source.x / source.y))
+
+  // Warping onto a separate layer first, so the mesh overlaps are not blended twice
+  const layer = document.createElement('canvas')
+  layer.width = width
+  layer.height = height
+  const warped = layer.getContext('2d')!
+
+  for (let row = 0; row < MESH_SIZE; row++) {
+    for (let column = 0; column < MESH_SIZE; column++) {
+      const corners = [[column, row], [column + 1, row], [column + 1, row + 1], [column, row + 1]]
+        .map(([u, v]) => [u / MESH_SIZE, v / MESH_SIZE])
+      const src = corners.map(([u, v]) => ({ x: u * source.x, y: v * source.y }))
+      const dst = corners.map(([u, v]) => map(u, v))
+      drawTriangle(warped, design, [src[0], src[1], src[2]], [dst[0], dst[1], dst[2]])
+      drawTriangle(warped, design, [src[0], src[2], src[3]], [dst[0], dst[2], dst[3]])
+    }
+  }
+
+  context.save()
+  context.drawImage(photo, 0, 0, width, height)
+  // Multiplying keeps the skin's shading and drops the design's white background
+  context.globalCompositeOperation = 'multiply'
+  context.globalAlpha = transform.opacity
+  context.drawImage(layer, 0, 0)
+  context.restore()
+}
@@ -0,0 +1,123 @@
+import { addHistoryEntry, completeHistoryEntry, HistoryEntry } from '@/lib/history'
+import { ingestPrediction } from '@/lib/ingest'
+import { kv } from '@/lib/kv'
+import { getProvider, isTerminal, Prediction, PredictionInput } from '@/lib/providers'
+
+// Completed predictions are kept for a week
+export const PREDICTION_TTL_SECONDS = 60 * 60 * 24 * 7
+
+// Owner records only need to outlive the running prediction they allow cancelling
+const OWNER_TTL_SECONDS = 60 * 60 * 24
+
+// PredictionOwner records who started a prediction, when, and what it cost them
+export interface PredictionOwner {
+  identifier: string
+  createdAt: number
+  credits: number
+}
+
+// StartPredictionOptions describes a generation run on behalf of a caller
+export interface StartPredictionOptions {
+  input: PredictionInput
+  // Model version to run instead of the provider's default
+  version?: string
+  // Quota identifier of the caller, and the credits debited from them at `usedAt`, for cancel refunds
+  identifier: string
+  credits: number
+  usedAt: number
+  // History owner of the result, or null when the caller has none
+  owner: string | null
+  // Origin the webhook receiver is reachable at
+  origin: string
+  // What to record in the owner's history
+  history: Pick<HistoryEntry, 'prompt' | 'style' | 'params' | 'parentId'>
+  // Reference image data URL to keep alongside the history entry, moved into the blob store when the job is queued
+  referenceImage?: string
+}
+
+// Building the KV key for a prediction id
+const predictionKey = (id: string) => `prediction:${id}`
+
+// Building the KV key for a prediction's owner record
+const ownerKey = (id: string) => `prediction-owner:${id}`
+
+// Storing a settled prediction so later lookups never reach the provider,
+// after copying its outputs into our own blob store
+export async function savePrediction(prediction: Prediction): Promise<Prediction> {
+  const stored = await ingestPrediction(prediction)
+  await kv.set(predictionKey(stored.id), stored, { ex: PREDICTION_TTL_SECONDS })
+  await completeHistoryEntry(stored)
+  return stored
+}
+
+// Reading a stored prediction, or null when it is not in KV
+export async function getStoredPrediction(id: string) {
+  return kv.get<Prediction>(predictionKey(id))
+}
+
+// Loading a prediction from KV first, falling back to the provider for running jobs
+export async function loadPrediction(id: string): Promise<Prediction> {
+  const stored = await getStoredPrediction(id)
+  if (stored) {
+    return stored
+  }
+
+  const prediction = await getProvider().getPrediction(id)
+
+  // Caching predictions that settled before their webhook arrived
+  if (isTerminal(prediction.status)) {
+    return savePrediction(prediction)
+  }
+
+  return prediction
+}
+
+// Remembering who started a prediction
+export async function savePredictionOwner(id: string, owner: PredictionOwner) {
+  await kv.set(ownerKey(id), owner, { ex: OWNER_TTL_SECONDS })
+}
+
+// Reading the owner record of a prediction, or null when unknown
+export async function getPredictionOwner(id: string) {
+  return kv.get<PredictionOwner>(ownerKey(id))
+}
+
+// Removing the owner record, returning true only for the caller that removed it
+export async function releasePredictionOwner(id: string) {
+  return (await kv.del(ownerKey(id))) === 1
+}
+
+// Asking the provider to start a prediction, the only step of starting one that is safe to retry
+export async function requestPrediction(options: StartPredictionOptions): Promise<Prediction> {
+  // Registering the webhook receiver when a signing secret is configured
+  const webhook = process.env.REPLICATE_WEBHOOK_SECRET
+    ? `${options.origin}/api/webhooks/replicate`
+    : undefined
+
+  return getProvider().createPrediction(options.input, {
+    webhook,
+    version: options.version,
+  })
+}
+
+// Recording who started a prediction and what it was for, once the provider accepted it
+export async function recordPrediction(prediction: Prediction, options: StartPredictionOptions) {
+  // Remembering who started the prediction so only they can cancel it
+  await savePredictionOwner(prediction.id, {
+    identifier: options.identifier,
+    createdAt: options.usedAt,
+    credits: options.credits,
+  })
+
+  // Recording the generation in the caller's history
+  if (options.owner) {
+    await addHistoryEntry({
+      ...options.history,
+      id: prediction.id,
+      owner: options.owner,
+      status: prediction.status,
+      output: prediction.output,
+      createdAt: options.usedAt,
+    })
+  }
+}
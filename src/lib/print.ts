@@ -0,0 +1,170 @@
+import { PDFDocument, PDFFont, rgb, StandardFonts } from 'pdf-lib'
+import sharp from 'sharp'
+
+import type { Design } from '@/lib/designs'
+import { ValidationError } from '@/lib/errors'
+
+// Units the printed width can be given in, as millimetres per unit
+export const PRINT_UNITS = { cm: 10, mm: 1, in: 25.4 }
+
+export type PrintUnit = keyof typeof PRINT_UNITS
+
+// Bounds enforced on every print export
+export const PRINT_LIMITS = {
+  widthMm: { min: 10, max: 500 },
+  dpi: { min: 72, max: 1200 },
+  // Keeping the resampled image small enough to build in memory
+  maxPixels: 8000,
+}
+
+// PrintOptions is the validated query of a /api/print request
+export interface PrintOptions {
+  width: number
+  unit: PrintUnit
+  dpi: number
+  // Flipping horizontally, for transfer paper that is applied face down
+  mirror: boolean
+}
+
+// Values used for any option the caller leaves out
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  width: 10,
+  unit: 'cm',
+  dpi: 300,
+  mirror: false,
+}
+
+// PDF user space units per millimetre
+const POINTS_PER_MM = 72 / 25.4
+
+// A4 portrait, the smallest page an export is placed on
+const A4 = { width: 210 * POINTS_PER_MM, height: 297 * POINTS_PER_MM }
+
+// Margin around the image and the caption, in points
+const MARGIN = 15 * POINTS_PER_MM
+
+const CAPTION_SIZE = 9
+const CAPTION_LEADING = 12
+
+// Validating the query of a print request
+export function parsePrintOptions(query: URLSearchParams): PrintOptions {
+  const unit = query.get('unit') ?? DEFAULT_PRINT_OPTIONS.unit
+  if (!Object.prototype.hasOwnProperty.call(PRINT_UNITS, unit)) {
+    throw new ValidationError(`Unit must be one of ${Object.keys(PRINT_UNITS).join(', ')}.`)
+  }
+
+  const width = Number(query.get('width') ?? DEFAULT_PRINT_OPTIONS.width)
+  const widthMm = width * PRINT_UNITS[unit as PrintUnit]
+  if (!Number.isFinite(width) || widthMm < PRINT_LIMITS.widthMm.min || widthMm > PRINT_LIMITS.widthMm.max) {
+    throw new ValidationError(`Width must be between ${PRINT_LIMITS.widthMm.min / 10} and ${PRINT_LIMITS.widthMm.max / 10} cm.`)
+  }
+
+  const dpi = Number(query.get('dpi') ?? DEFAULT_PRINT_OPTIONS.dpi)
+  if (!Number.isInteger(dpi) || dpi < PRINT_LIMITS.dpi.min || dpi > PRINT_LIMITS.dpi.max) {
+    throw new ValidationError(`DPI must be a whole number between ${PRINT_LIMITS.dpi.min} and ${PRINT_LIMITS.dpi.max}.`)
+  }
+
+  if (Math.round((widthMm / 25.4) * dpi) > PRINT_LIMITS.maxPixels) {
+    throw new ValidationError(`That size needs more than ${PRINT_LIMITS.maxPixels} pixels. Lower the width or the DPI.`)
+  }
+
+  const mirror = query.get('mirror')
+  return { width, unit: unit as PrintUnit, dpi, mirror: mirror === '1' || mirror === 'true' }
+}
+
+// Replacing characters the standard PDF fonts cannot encode
+const toWinAnsi = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+// Cutting a word wider than the line into pieces that fit, so long runs without spaces still wrap
+function splitWord(word: string, font: PDFFont, width: number) {
+  if (font.widthOfTextAtSize(word, CAPTION_SIZE) <= width) {
+    return [word]
+  }
+  const pieces: string[] = []
+  let piece = ''
+  for (const char of word) {
+    if (piece && font.widthOfTextAtSize(piece + char, CAPTION_SIZE) > width) {
+      pieces.push(piece)
+      piece = char
+    } else {
+      piece += char
+    }
+  }
+  pieces.push(piece)
+  return pieces
+}
+
+// Breaking text into lines that fit the given width
+function wrapText(text: string, font: PDFFont, width: number) {
+  const lines: string[] = []
+  let line = ''
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    for (const word of splitWord(token, font, width)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && font.widthOfTextAtSize(candidate, CAPTION_SIZE) > width) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    }
+  }
+  if (line) {
+    lines.push(line)
+  }
+  return lines
+}
+
+// Rendering a design as a PDF at its physical print size, with its details in the bottom margin
+export async function createPrintPdf(design: Design, styleName: string, image: Buffer, options: PrintOptions) {
+  const widthMm = options.width * PRINT_UNITS[options.unit]
+  const pixels = Math.round((widthMm / 25.4) * options.dpi)
+
+  // Resampling to the requested DPI, so the PDF carries exactly the printed resolution
+  let pipeline = sharp(image).flatten({ background: '#ffffff' }).resize({ width: pixels })
+  if (options.mirror) {
+    pipeline = pipeline.flop()
+  }
+  const { data, info } = await pipeline.png().toBuffer({ resolveWithObject: true })
+
+  const imageWidth = widthMm * POINTS_PER_MM
+  const imageHeight = imageWidth * (info.height / info.width)
+
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`Tattoo design ${design.id}`)
+  pdf.setSubject(design.prompt)
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+
+  // Growing the page beyond A4 when the print does not fit on it
+  const pageWidth = Math.max(A4.width, imageWidth + 2 * MARGIN)
+
+  const caption = [
+    ...wrapText(toWinAnsi(`Prompt: ${design.prompt}`), font, pageWidth - 2 * MARGIN),
+    toWinAnsi(`Style: ${styleName}`),
+    `Design: ${design.id}`,
+    `Size: ${options.width} ${options.unit} wide at ${options.dpi} DPI${options.mirror ? ', mirrored' : ''}`,
+  ]
+  const captionHeight = caption.length * CAPTION_LEADING
+
+  const pageHeight = Math.max(A4.height, imageHeight + captionHeight + 3 * MARGIN)
+  const page = pdf.addPage([pageWidth, pageHeight])
+
+  page.drawImage(await pdf.embedPng(data), {
+    x: MARGIN,
+    y: pageHeight - MARGIN - imageHeight,
+    width: imageWidth,
+    height: imageHeight,
+  })
+
+  caption.forEach((line, index) => {
+    page.drawText(line, {
+      x: MARGIN,
+      y: MARGIN + captionHeight - (index + 1) * CAPTION_LEADING,
+      size: CAPTION_SIZE,
+      font,
+      color: rgb(0.3, 0.3, 0.3),
+    })
+  })
+
+  return pdf.save()
+}
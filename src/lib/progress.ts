@@ -0,0 +1,39 @@
+import type { ApiErrorBody } from '@/lib/errors'
+import type { Prediction } from '@/lib/providers'
+
+// PredictionEvent is the payload of each server-sent event on the prediction stream
+export type PredictionEvent =
+  | { prediction: Prediction; progress: number }
+  | ApiErrorBody
+
+// Matching the percentage column of tqdm progress bars printed in model logs, e.g. " 42%|████      | 21/50"
+const PROGRESS_PATTERN = /(\d{1,3})%\|/g
+
+// Deriving a 0-100 progress value for a prediction from its status and logs
+export function getProgress(prediction: Prediction): number {
+  if (prediction.status === 'succeeded') {
+    return 100
+  }
+
+  if (prediction.status !== 'processing' || !prediction.logs) {
+    return 0
+  }
+
+  // Using the last percentage printed, since logs accumulate over the run
+  const matches = Array.from(prediction.logs.matchAll(PROGRESS_PATTERN))
+  const last = matches[matches.length - 1]
+  return last ? Math.min(100, Number(last[1])) : 0
+}
+
+// Describing a prediction's status for people, eg. "3rd in line" while it waits in the queue
+export function describeStatus(prediction: { status: string; queue_position?: number | null }): string {
+  const position = prediction.queue_position
+  if (prediction.status !== 'queued' || !position) {
+    return prediction.status
+  }
+  // Picking the English ordinal suffix, where 11th to 13th are the exceptions
+  const suffix = position % 100 >= 11 && position % 100 <= 13
+    ? 'th'
+    : ['th', 'st', 'nd', 'rd'][position % 10] ?? 'th'
+  return position === 1 ? 'Next in line' : `${position}${suffix} in line`
+}
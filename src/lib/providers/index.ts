@@ -0,0 +1,21 @@
+import { replicateProvider } from './replicate'
+import { stubProvider } from './stub'
+import { PredictionProvider } from './types'
+
+export * from './types'
+
+// Registry of the available image-generation providers
+const providers: Record<string, PredictionProvider> = {
+  replicate: replicateProvider,
+  stub: stubProvider,
+}
+
+// Selecting the provider named by PREDICTION_PROVIDER, defaulting to Replicate
+export function getProvider(): PredictionProvider {
+  const name = process.env.PREDICTION_PROVIDER ?? 'replicate'
+  const provider = providers[name]
+  if (!provider) {
+    throw new Error(`Unknown prediction provider "${name}".`)
+  }
+  return provider
+}
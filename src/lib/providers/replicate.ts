@@ -0,0 +1,83 @@
+import {
+  CreatePredictionOptions,
+  Prediction,
+  PredictionInput,
+  PredictionProvider,
+  ProviderError,
+} from './types'
+
+// Base URL of the Replicate predictions API
+const REPLICATE_API_URL = 'https://api.replicate.com/v1/predictions'
+
+// Model version used when REPLICATE_MODEL_VERSION is not set
+const DEFAULT_MODEL_VERSION =
+  '0ea3d46aac800ae87cd210a5e98f4eee1f4b3b183837e922db3574b7170e0308'
+
+// Building the headers sent with every Replicate request
+const headers = () => ({
+  Authorization: `Token ${process.env.REPLICATE_API_TOKEN}`,
+  'Content-Type': 'application/json',
+})
+
+// Converting a Replicate prediction, from the API or a webhook, to the provider-agnostic shape,
+// so Replicate internals such as its URLs and metrics never reach clients
+export function toPrediction(body: any): Prediction {
+  return {
+    id: body.id,
+    status: body.status,
+    // Single-image models such as upscalers return one URL instead of a list
+    output: typeof body.output === 'string' ? [body.output] : body.output ?? null,
+    error: body.error ?? null,
+    logs: body.logs ?? null,
+    created_at: body.created_at,
+    completed_at: body.completed_at ?? null,
+  }
+}
+
+// Parsing a Replicate response, throwing a ProviderError for any non-2xx status. Error bodies are only read
+// for their detail, since gateways in front of Replicate answer with HTML pages.
+async function parse(response: Response): Promise<Prediction> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new ProviderError(body?.detail ?? response.statusText, response.status)
+  }
+  return toPrediction(await response.json())
+}
+
+// ReplicateProvider talks to the hosted Replicate API
+export const replicateProvider: PredictionProvider = {
+  name: 'replicate',
+
+  async createPrediction(input: PredictionInput, options: CreatePredictionOptions = {}) {
+    const response = await fetch(REPLICATE_API_URL, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        version: options.version ?? process.env.REPLICATE_MODEL_VERSION ?? DEFAULT_MODEL_VERSION,
+        input,
+        // Asking Replicate to call back only once the prediction has settled
+        ...(options.webhook && {
+          webhook: options.webhook,
+          webhook_events_filter: ['completed'],
+        }),
+      }),
+    })
+    return parse(response)
+  },
+
+  async getPrediction(id: string) {
+    const response = await fetch(`${REPLICATE_API_URL}/${id}`, {
+      next: { revalidate: 1 },
+      headers: headers(),
+    })
+    return parse(response)
+  },
+
+  async cancelPrediction(id: string) {
+    const response = await fetch(`${REPLICATE_API_URL}/${id}/cancel`, {
+      method: 'POST',
+      headers: headers(),
+    })
+    return parse(response)
+  },
+}
@@ -0,0 +1,98 @@
+import {
+  Prediction,
+  PredictionInput,
+  PredictionProvider,
+  ProviderError,
+} from './types'
+
+// Canned images served from public/images
+const STUB_IMAGES = [
+  '/images/dog.webp',
+  '/images/panda.webp',
+  '/images/tiger.webp',
+  '/images/samurai.webp',
+  '/images/space.webp',
+  '/images/tree.webp',
+]
+
+// Number of fake inference steps reported in the logs
+const STUB_STEPS = 50
+
+// How long a stub prediction takes to "run", overridable for tests
+const duration = () => Number(process.env.STUB_PREDICTION_MS ?? 6000)
+
+// Canceled ids are kept in memory; everything else is derived from the id itself
+const canceled = new Set<string>()
+
+// Ids encode the creation time and output count, so any instance can answer for them
+const encodeId = (createdAt: number, count: number) =>
+  `stub-${createdAt.toString(36)}-${count}-${Math.random().toString(36).slice(2, 8)}`
+
+function decodeId(id: string) {
+  const [prefix, createdAt, count] = id.split('-')
+  if (prefix !== 'stub' || !createdAt || !count) {
+    throw new ProviderError('Prediction not found.', 404)
+  }
+  return { createdAt: parseInt(createdAt, 36), count: Number(count) }
+}
+
+// Building logs in the tqdm format Replicate models print
+const progressLogs = (step: number) =>
+  Array.from({ length: step }, (_, i) => {
+    const current = i + 1
+    const percent = Math.round((current / STUB_STEPS) * 100)
+    return `${percent}%|| ${current}/${STUB_STEPS}`
+  }).join('\n')
+
+// Deriving the current state of a stub prediction from its id and the clock
+function snapshot(id: string): Prediction {
+  const { createdAt, count } = decodeId(id)
+  const elapsed = Date.now() - createdAt
+  const base = {
+    id,
+    created_at: new Date(createdAt).toISOString(),
+    error: null,
+  }
+
+  if (canceled.has(id)) {
+    return { ...base, status: 'canceled', output: null, logs: '', completed_at: new Date().toISOString() }
+  }
+
+  if (elapsed < duration() * 0.1) {
+    return { ...base, status: 'starting', output: null, logs: '', completed_at: null }
+  }
+
+  if (elapsed < duration()) {
+    const step = Math.floor((elapsed / duration()) * STUB_STEPS)
+    return { ...base, status: 'processing', output: null, logs: progressLogs(step), completed_at: null }
+  }
+
+  return {
+    ...base,
+    status: 'succeeded',
+    output: Array.from({ length: count }, (_, i) => STUB_IMAGES[i % STUB_IMAGES.length]),
+    logs: progressLogs(STUB_STEPS),
+    completed_at: new Date(createdAt + duration()).toISOString(),
+  }
+}
+
+// StubProvider returns canned images so the app can run without a Replicate token
+export const stubProvider: PredictionProvider = {
+  name: 'stub',
+
+  async createPrediction(input: PredictionInput) {
+    return snapshot(encodeId(Date.now(), input.num_outputs ?? 1))
+  },
+
+  async getPrediction(id: string) {
+    return snapshot(id)
+  },
+
+  async cancelPrediction(id: string) {
+    const prediction = snapshot(id)
+    if (prediction.status === 'starting' || prediction.status === 'processing') {
+      canceled.add(id)
+    }
+    return snapshot(id)
+  },
+}
@@ -0,0 +1,72 @@
+// Status values a prediction can move through, mirroring the Replicate lifecycle after waiting in our queue
+export type PredictionStatus =
+  | 'queued'
+  | 'starting'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+
+// Prediction is the provider-agnostic shape returned to the client
+export interface Prediction {
+  id: string
+  status: PredictionStatus
+  output: string[] | null
+  error?: string | null
+  logs?: string | null
+  created_at?: string
+  completed_at?: string | null
+  // Place in line while the prediction waits in the job queue, 1 for the next to start
+  queue_position?: number | null
+}
+
+// Input accepted by every provider when creating a prediction
+export interface PredictionInput {
+  prompt?: string
+  num_outputs?: number
+  negative_prompt?: string
+  seed?: number
+  guidance_scale?: number
+  num_inference_steps?: number
+  width?: number
+  height?: number
+  image?: string
+  prompt_strength?: number
+  mask?: string
+  // Upscaling factor, for upscale models
+  scale?: number
+}
+
+// Options that only some providers act on when creating a prediction
+export interface CreatePredictionOptions {
+  // URL the provider calls once the prediction completes
+  webhook?: string
+  // Model version to run instead of the provider's default
+  version?: string
+}
+
+// PredictionProvider is the contract each image-generation backend implements
+export interface PredictionProvider {
+  name: string
+  createPrediction(input: PredictionInput, options?: CreatePredictionOptions): Promise<Prediction>
+  getPrediction(id: string): Promise<Prediction>
+  cancelPrediction(id: string): Promise<Prediction>
+}
+
+// ProviderError carries the upstream HTTP status alongside the error detail
+export class ProviderError extends Error {
+  status: number
+
+  constructor(message: string, status = 500) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = status
+  }
+}
+
+// Statuses after which a prediction will no longer change
+export const TERMINAL_STATUSES: PredictionStatus[] = ['succeeded', 'failed', 'canceled']
+
+// Checking whether a prediction has reached a terminal status
+export const isTerminal = (status: PredictionStatus) =>
+  TERMINAL_STATUSES.includes(status)
@@ -0,0 +1,377 @@
+import { NextRequest } from 'next/server'
+
+import { ApiError, NotFoundError, toApiError } from '@/lib/errors'
+import { getOwnerId } from '@/lib/identity'
+import { loadImageAsDataUrl, storeUploadedImage } from '@/lib/ingest'
+import { kv } from '@/lib/kv'
+import {
+  getStoredPrediction,
+  loadPrediction,
+  recordPrediction,
+  requestPrediction,
+  StartPredictionOptions,
+} from '@/lib/predictions'
+import { isTerminal, Prediction, PredictionInput, ProviderError } from '@/lib/providers'
+import { debitCredits, getQuotaSubject, quotaExceededError, refundCredits } from '@/lib/quota'
+
+// Running predictions allowed at once, across everyone and per caller, unless overridden
+const DEFAULT_CONCURRENCY = { global: 8, user: 2 }
+
+// Attempts made at starting a job before it fails, and the delay before the first retry,
+// which doubles with every attempt
+const MAX_ATTEMPTS = 3
+const RETRY_BASE_MS = 2000
+
+// A running prediction nobody polled and no webhook settled stops holding its slot after this long
+const RUNNING_TIMEOUT_MS = 10 * 60 * 1000
+
+// Jobs are kept for a day, long enough for the caller to pick up the outcome
+const JOB_TTL_SECONDS = 60 * 60 * 24
+
+// How long one pump may hold the lock before another may take over
+const LOCK_TTL_MS = 30 * 1000
+
+// Prefix that tells job ids apart from provider prediction ids
+const JOB_PREFIX = 'job-'
+
+// KV key of the waiting jobs, a sorted set scored by enqueue order
+const QUEUE_KEY = 'jobs:queue'
+
+// KV key of the counter that numbers jobs as they are enqueued, so jobs queued in the same millisecond keep their order
+const SEQUENCE_KEY = 'jobs:sequence'
+
+// KV key of the predictions started from the queue that still hold a slot, a sorted set scored by start time,
+// so pumps add and remove single slots instead of writing the whole list
+const RUNNING_KEY = 'jobs:slots'
+
+// KV key of the lock that lets only one pump start jobs at a time
+const LOCK_KEY = 'jobs:lock'
+
+// Building the KV key of a single job
+const jobKey = (id: string) => `job:${id}`
+
+// GenerationJob is a prediction waiting for a free slot, with everything needed to start it.
+// Its images are kept in the blob store, so the options only hold their URLs.
+export interface GenerationJob {
+  id: string
+  options: StartPredictionOptions
+  // A pump takes a job out of line while it asks the provider to start it, which is when it is starting
+  status: 'queued' | 'starting' | 'started' | 'failed' | 'canceled'
+  // Place in line, kept so a job that is retried goes back where it was
+  sequence: number
+  attempts: number
+  // Earliest time the next attempt may run, after a transient failure
+  retryAt: number
+  // Provider prediction once the job started
+  predictionId: string | null
+  error: string | null
+  enqueuedAt: number
+}
+
+// RunningJob is a slot held by a started prediction
+interface RunningJob {
+  predictionId: string
+  identifier: string
+  startedAt: number
+}
+
+// Writing a slot as a member of the running set, with the identifier last since it is the only part that may hold spaces
+const toSlotMember = ({ predictionId, identifier, startedAt }: RunningJob) => `${startedAt} ${predictionId} ${identifier}`
+
+// Reading a slot back from its member
+function fromSlotMember(member: string): RunningJob {
+  const [startedAt, predictionId] = member.split(' ', 2)
+  return { predictionId, identifier: member.slice(startedAt.length + predictionId.length + 2), startedAt: Number(startedAt) }
+}
+
+// Reading a concurrency cap, eg. QUEUE_CONCURRENCY or QUEUE_USER_CONCURRENCY
+export function getConcurrency(scope: 'global' | 'user') {
+  const value = Number(process.env[scope === 'global' ? 'QUEUE_CONCURRENCY' : 'QUEUE_USER_CONCURRENCY'])
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY[scope]
+}
+
+// Checking whether an id names a queued job rather than a provider prediction
+export const isJobId = (id: string) => id.startsWith(JOB_PREFIX)
+
+// Rate limits, provider outages and requests that never reached the provider are worth another try; bad input
+// and our own bugs are not. fetch reports network failures as a TypeError with this exact message.
+const isTransient = (error: unknown) =>
+  error instanceof ProviderError
+    ? error.status === 429 || error.status >= 500
+    : error instanceof TypeError && error.message === 'fetch failed'
+
+// Reading a job, or null when it expired or never existed
+export async function getJob(id: string) {
+  return kv.get<GenerationJob>(jobKey(id))
+}
+
+// Storing a changed job
+async function saveJob(job: GenerationJob) {
+  await kv.set(jobKey(job.id), job, { ex: JOB_TTL_SECONDS })
+}
+
+// Moving the uploaded images of a job into the blob store, so the job record stays small. The same image,
+// such as an image-to-image upload that is also the reference image, is stored once.
+async function storeJobImages(id: string, { referenceImage, ...options }: StartPredictionOptions) {
+  const stored = new Map<string, Promise<string>>()
+  const store = (name: string, value: string) => {
+    if (!value.startsWith('data:')) {
+      return Promise.resolve(value)
+    }
+    if (!stored.has(value)) {
+      stored.set(value, storeUploadedImage(`jobs/${id}/${name}`, value))
+    }
+    return stored.get(value)!
+  }
+
+  const input = { ...options.input }
+  if (input.image) {
+    input.image = await store('image', input.image)
+  }
+  if (input.mask) {
+    input.mask = await store('mask', input.mask)
+  }
+  const history = referenceImage
+    ? { ...options.history, params: { ...options.history.params, referenceImage: await store('reference', referenceImage) } }
+    : options.history
+  return { ...options, input, history }
+}
+
+// Loading the images of a job back as data URLs when it starts, since the model cannot reach our URLs
+async function loadJobImages({ input, origin }: StartPredictionOptions): Promise<PredictionInput> {
+  return {
+    ...input,
+    ...(input.image && { image: await loadImageAsDataUrl(input.image, origin) }),
+    ...(input.mask && { mask: await loadImageAsDataUrl(input.mask, origin) }),
+  }
+}
+
+// Adding a job to the end of the queue without starting anything, so a batch can be queued in one go
+export async function createJob(options: StartPredictionOptions): Promise<GenerationJob> {
+  const id = `${JOB_PREFIX}${crypto.randomUUID()}`
+  const job: GenerationJob = {
+    id,
+    options: await storeJobImages(id, options),
+    status: 'queued',
+    sequence: await kv.incrby(SEQUENCE_KEY, 1),
+    attempts: 0,
+    retryAt: 0,
+    predictionId: null,
+    error: null,
+    enqueuedAt: Date.now(),
+  }
+  await saveJob(job)
+  await kv.zadd(QUEUE_KEY, { score: job.sequence, member: job.id })
+  return job
+}
+
+// Keeping the slots of predictions that are still running, releasing settled and abandoned ones
+async function readRunning(now: number) {
+  const kept: RunningJob[] = []
+  for (const member of await kv.zrange<string[]>(RUNNING_KEY, 0, -1)) {
+    const slot = fromSlotMember(member)
+    const stored = await getStoredPrediction(slot.predictionId)
+    if ((stored && isTerminal(stored.status)) || now - slot.startedAt >= RUNNING_TIMEOUT_MS) {
+      await kv.zrem(RUNNING_KEY, member)
+    } else {
+      kept.push(slot)
+    }
+  }
+  return kept
+}
+
+// Trying to start one job, returning the slot it took, or null when it has to wait or gave up
+async function startJob(job: GenerationJob, now: number): Promise<RunningJob | null> {
+  // Claiming the job by taking it out of line; a cancel or another pump that got there first keeps it
+  if ((await kv.zrem(QUEUE_KEY, job.id)) !== 1) {
+    return null
+  }
+  const attempt: GenerationJob = { ...job, status: 'starting', attempts: job.attempts + 1 }
+  await saveJob(attempt)
+
+  // Retrying only the provider call, since everything after it would start a second, billed prediction
+  let prediction: Prediction
+  try {
+    prediction = await requestPrediction({ ...job.options, input: await loadJobImages(job.options) })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'The prediction could not be started.'
+    if (isTransient(error) && attempt.attempts < MAX_ATTEMPTS) {
+      // Putting the job back in its place in line, skipped until the backoff has passed
+      await saveJob({ ...attempt, status: 'queued', error: message, retryAt: now + RETRY_BASE_MS * 2 ** (attempt.attempts - 1) })
+      await kv.zadd(QUEUE_KEY, { score: job.sequence, member: job.id })
+    } else {
+      // Giving up and giving back the credits the job was paid with
+      await saveJob({ ...attempt, status: 'failed', error: message })
+      await refundCredits(job.options.identifier, job.options.credits, job.options.usedAt)
+    }
+    return null
+  }
+
+  // Holding the slot and recording the owner before the job points at its prediction, so a cancel finds both
+  const slot = { predictionId: prediction.id, identifier: job.options.identifier, startedAt: now }
+  await kv.zadd(RUNNING_KEY, { score: now, member: toSlotMember(slot) })
+  try {
+    await recordPrediction(prediction, job.options)
+  } finally {
+    await saveJob({ ...attempt, status: 'started', predictionId: prediction.id, error: null })
+  }
+  return slot
+}
+
+// Starting queued jobs, oldest first, while there are free slots. Callers skip their jobs while they
+// are at their own cap, so one caller's batch cannot hold up everyone behind it. Only one pump runs at a time;
+// the others return at once, and the running one reads the queue again before it stops to pick up their jobs.
+export async function pumpQueue() {
+  // Taking the lock and its expiry in one write, so a pump that dies never leaves the queue locked. The token
+  // keeps a pump that outlived its lock from releasing the lock of the pump that took over.
+  const token = crypto.randomUUID()
+  if (!(await kv.set(LOCK_KEY, token, { px: LOCK_TTL_MS, nx: true }))) {
+    return
+  }
+  const now = Date.now()
+
+  try {
+    const running = await readRunning(now)
+    // Jobs looked at already, so each pass over the queue only handles the ones enqueued since the last
+    const seen = new Set<string>()
+
+    while (running.length < getConcurrency('global')) {
+      const ids = (await kv.zrange<string[]>(QUEUE_KEY, 0, -1)).filter((id) => !seen.has(id))
+      if (!ids.length) {
+        break
+      }
+      const jobs = await kv.mget<(GenerationJob | null)[]>(...ids.map(jobKey))
+
+      for (let index = 0; index < ids.length && running.length < getConcurrency('global'); index++) {
+        seen.add(ids[index])
+        const job = jobs[index]
+        // Dropping ids whose job expired
+        if (!job) {
+          await kv.zrem(QUEUE_KEY, ids[index])
+          continue
+        }
+        const mine = running.filter((slot) => slot.identifier === job.options.identifier).length
+        if (job.retryAt > now || mine >= getConcurrency('user')) {
+          continue
+        }
+        const slot = await startJob(job, now)
+        if (slot) {
+          running.push(slot)
+        }
+      }
+    }
+  } finally {
+    await kv.delIfEquals(LOCK_KEY, token)
+  }
+}
+
+// Describing a job that has not started as a prediction, with its place in line
+async function toPrediction(job: GenerationJob): Promise<Prediction> {
+  if (job.status === 'queued') {
+    const ids = await kv.zrange<string[]>(QUEUE_KEY, 0, -1)
+    return { id: job.id, status: 'queued', output: null, queue_position: ids.indexOf(job.id) + 1 }
+  }
+  if (job.status === 'starting') {
+    return { id: job.id, status: 'starting', output: null }
+  }
+  return { id: job.id, status: job.status === 'canceled' ? 'canceled' : 'failed', output: null, error: job.error }
+}
+
+// Loading a prediction by its own id or the id of the job that started it. Waiting jobs and settled
+// predictions move the queue along, so the status polls of callers in line keep it going.
+export async function loadQueuedPrediction(id: string): Promise<Prediction> {
+  if (!isJobId(id)) {
+    const prediction = await loadPrediction(id)
+    if (isTerminal(prediction.status)) {
+      await pumpQueue()
+    }
+    return prediction
+  }
+
+  let job = await getJob(id)
+  if (job?.status === 'queued') {
+    await pumpQueue()
+    job = await getJob(id)
+  }
+  if (!job) {
+    throw new NotFoundError('Prediction not found.')
+  }
+  return job.status === 'started' && job.predictionId ? loadQueuedPrediction(job.predictionId) : toPrediction(job)
+}
+
+// PaidPrediction is a prediction a request queues on the caller's credits; who pays, who owns the result
+// and where the webhook goes are read from the request
+export type PaidPrediction = Pick<StartPredictionOptions, 'input' | 'version' | 'credits' | 'history' | 'referenceImage'>
+
+// Debiting the credits of all the predictions up front, so the request either fits the quota or nothing is
+// queued, then queueing them in order. One that cannot be queued is refunded and reported by its error.
+export async function startPaidPredictions(req: NextRequest, predictions: PaidPrediction[]) {
+  const subject = await getQuotaSubject(req)
+
+  // Recording when the credits are debited, so cancels and failures refund the same periods
+  const usedAt = Date.now()
+  const credits = predictions.reduce((total, prediction) => total + prediction.credits, 0)
+  const quota = await debitCredits(subject, credits, usedAt)
+  if (!quota.success) {
+    throw quotaExceededError(quota, credits)
+  }
+
+  // From here on a queued job owns its credits, and gives them back itself when it fails or is canceled
+  const jobs: (string | ApiError)[] = []
+  for (const prediction of predictions) {
+    try {
+      const job = await createJob({
+        ...prediction,
+        identifier: subject.identifier,
+        usedAt,
+        owner: getOwnerId(req),
+        origin: req.nextUrl.origin,
+      })
+      jobs.push(job.id)
+    } catch (error) {
+      await refundCredits(subject.identifier, prediction.credits, usedAt)
+      jobs.push(toApiError(error))
+    }
+  }
+
+  // Starting as many as the concurrency caps allow; the rest start as earlier ones finish
+  await pumpQueue()
+
+  const results: (Prediction | ApiError)[] = []
+  for (const job of jobs) {
+    results.push(typeof job === 'string' ? await loadQueuedPrediction(job) : job)
+  }
+  return { quota, predictions: results }
+}
+
+// Debiting and queueing a single prediction, throwing the error that kept it from being queued
+export async function startPaidPrediction(req: NextRequest, prediction: PaidPrediction) {
+  const { quota, predictions } = await startPaidPredictions(req, [prediction])
+  if (predictions[0] instanceof ApiError) {
+    throw predictions[0]
+  }
+  return { quota, prediction: predictions[0] }
+}
+
+// Taking a waiting job out of line and refunding it, returning null when it is not the caller's
+// or already started, so the provider prediction is canceled instead
+export async function cancelJob(id: string, identifier: string): Promise<Prediction | null> {
+  const job = await getJob(id)
+  if (!job || job.options.identifier !== identifier) {
+    return null
+  }
+
+  // Claiming the job the same way a pump does, so only one of them ever has it
+  if (job.status === 'queued' && (await kv.zrem(QUEUE_KEY, id)) === 1) {
+    const canceled: GenerationJob = { ...job, status: 'canceled' }
+    await saveJob(canceled)
+    await refundCredits(identifier, job.options.credits, job.options.usedAt)
+    return toPrediction(canceled)
+  }
+
+  // A job a pump is starting has no prediction to cancel yet, but will in a moment
+  if ((await getJob(id))?.status === 'starting') {
+    throw new ApiError('rate_limited', 'The prediction is just starting. Please try again in a moment.', { retryAfter: 1 })
+  }
+  return null
+}
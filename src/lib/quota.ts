@@ -0,0 +1,166 @@
+import { NextRequest } from 'next/server'
+
+import { getUser } from '@/lib/auth/users'
+import { ApiError } from '@/lib/errors'
+import { getRatelimitIdentifier, getUserId } from '@/lib/identity'
+import { kv } from '@/lib/kv'
+import { ratelimitHeaders } from '@/lib/ratelimit'
+
+// Tiers a caller's credits are granted by
+export type QuotaTier = 'anonymous' | 'free' | 'paid'
+
+// Periods credits are counted over
+export type QuotaPeriod = 'day' | 'month'
+
+// Credits granted per period when the environment does not override them
+const DEFAULT_LIMITS: Record<QuotaTier, Record<QuotaPeriod, number>> = {
+  anonymous: { day: 20, month: 200 },
+  free: { day: 40, month: 600 },
+  paid: { day: 400, month: 8000 },
+}
+
+// QuotaSubject is who credits are debited from
+export interface QuotaSubject {
+  identifier: string
+  tier: QuotaTier
+}
+
+// PeriodUsage is a subject's balance for one period
+export interface PeriodUsage {
+  limit: number
+  used: number
+  remaining: number
+  // When the period ends, in milliseconds since the epoch
+  reset: number
+}
+
+// QuotaStatus is a subject's balance for every period
+export interface QuotaStatus {
+  tier: QuotaTier
+  day: PeriodUsage
+  month: PeriodUsage
+}
+
+// QuotaResult is the outcome of a debit, with the balance of the period closest to running out
+export interface QuotaResult extends QuotaStatus {
+  success: boolean
+  limit: number
+  remaining: number
+  reset: number
+}
+
+// Reading a tier's limit for a period, eg. QUOTA_FREE_DAILY or QUOTA_PAID_MONTHLY
+export function getTierLimit(tier: QuotaTier, period: QuotaPeriod) {
+  const name = `QUOTA_${tier.toUpperCase()}_${period === 'day' ? 'DAILY' : 'MONTHLY'}`
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_LIMITS[tier][period]
+}
+
+// Start of the period after the one containing `at`, in UTC
+function periodEnd(period: QuotaPeriod, at: number) {
+  const date = new Date(at)
+  return period === 'day'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+}
+
+// Building the KV key of a subject's counter for the period containing `at`, eg. quota:1.2.3.4:day:2024-01-31
+function counterKey(identifier: string, period: QuotaPeriod, at: number) {
+  const stamp = new Date(at).toISOString().slice(0, period === 'day' ? 10 : 7)
+  return `quota:${identifier}:${period}:${stamp}`
+}
+
+// Building a period's balance from the credits used in it
+function usage(tier: QuotaTier, period: QuotaPeriod, used: number, at: number): PeriodUsage {
+  const limit = getTierLimit(tier, period)
+  return { limit, used, remaining: Math.max(0, limit - used), reset: periodEnd(period, at) }
+}
+
+// Summarising a status as the period closest to running out, for the X-RateLimit-* headers
+function closest(status: QuotaStatus) {
+  return status.day.remaining <= status.month.remaining ? status.day : status.month
+}
+
+// Resolving whose credits a request spends, and at which tier
+export async function getQuotaSubject(req: NextRequest): Promise<QuotaSubject> {
+  const userId = getUserId(req)
+  const user = userId ? await getUser(userId) : null
+  return {
+    identifier: getRatelimitIdentifier(req),
+    tier: user ? user.tier ?? 'free' : 'anonymous',
+  }
+}
+
+// Reading a subject's balance without spending anything
+export async function getQuota(subject: QuotaSubject, at = Date.now()): Promise<QuotaStatus> {
+  const [day, month] = await kv.mget<(number | null)[]>(
+    counterKey(subject.identifier, 'day', at),
+    counterKey(subject.identifier, 'month', at)
+  )
+  return {
+    tier: subject.tier,
+    day: usage(subject.tier, 'day', day ?? 0, at),
+    month: usage(subject.tier, 'month', month ?? 0, at),
+  }
+}
+
+// Debiting credits from every period, or none of them when any period would be overdrawn
+export async function debitCredits(subject: QuotaSubject, credits: number, at = Date.now()): Promise<QuotaResult> {
+  const keys = {
+    day: counterKey(subject.identifier, 'day', at),
+    month: counterKey(subject.identifier, 'month', at),
+  }
+
+  // Incrementing first keeps concurrent debits from both passing the check
+  const [day, month] = await Promise.all([kv.incrby(keys.day, credits), kv.incrby(keys.month, credits)])
+  await Promise.all([
+    kv.pexpireat(keys.day, periodEnd('day', at)),
+    kv.pexpireat(keys.month, periodEnd('month', at)),
+  ])
+
+  const success = day <= getTierLimit(subject.tier, 'day') && month <= getTierLimit(subject.tier, 'month')
+  if (!success) {
+    await Promise.all([kv.decrby(keys.day, credits), kv.decrby(keys.month, credits)])
+  }
+
+  const status: QuotaStatus = {
+    tier: subject.tier,
+    day: usage(subject.tier, 'day', success ? day : day - credits, at),
+    month: usage(subject.tier, 'month', success ? month : month - credits, at),
+  }
+  return { ...status, ...quotaHeaderValues(status), success }
+}
+
+// Giving back credits debited at `usedAt`, for the periods that are still running
+export async function refundCredits(identifier: string, credits: number, usedAt: number) {
+  for (const period of ['day', 'month'] as const) {
+    if (periodEnd(period, usedAt) <= Date.now()) {
+      continue
+    }
+    const key = counterKey(identifier, period, usedAt)
+    const used = await kv.get<number>(key)
+    if (used && used > 0) {
+      await kv.decrby(key, Math.min(used, credits))
+    }
+  }
+}
+
+// Explaining a failed debit to the caller, with when to try again and the X-RateLimit-* headers
+export function quotaExceededError(result: QuotaResult, credits: number) {
+  const period = result.day.remaining <= result.month.remaining ? 'today' : 'this month'
+  const message =
+    result.remaining === 0
+      ? `You have used all your credits for ${period}.`
+      : `You have ${result.remaining} credits left for ${period}, which is not enough for ${credits} images.`
+  return new ApiError('quota_exceeded', message, {
+    retryAfter: Math.max(0, Math.ceil((result.reset - Date.now()) / 1000)),
+    details: { tier: result.tier, limit: result.limit, remaining: result.remaining, reset: result.reset, credits },
+    headers: ratelimitHeaders(result),
+  })
+}
+
+// Building the X-RateLimit-* values for a status
+export const quotaHeaderValues = (status: QuotaStatus) => {
+  const { limit, remaining, reset } = closest(status)
+  return { limit, remaining, reset }
+}
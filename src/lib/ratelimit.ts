@@ -0,0 +1,78 @@
+// Importing Ratelimit for handling rate limiting
+import { Ratelimit } from '@upstash/ratelimit'
+
+// Importing kv from @vercel/kv for key-value storage
+import { kv as vercelKv } from '@vercel/kv'
+
+// Importing the app's store, which falls back to memory when Vercel KV is not configured
+import { hasVercelKv, kv } from '@/lib/kv'
+
+// Prefix Ratelimit uses for its keys in KV
+const PREFIX = '@upstash/ratelimit'
+
+// LimitResult is the outcome of one call to a limiter
+export interface LimitResult {
+    success: boolean
+    limit: number
+    remaining: number
+    // When the limit resets, in milliseconds since the epoch
+    reset: number
+}
+
+// Limiter is what routes call, whichever backend enforces the limit
+export interface Limiter {
+    limit(identifier: string): Promise<LimitResult>
+}
+
+// Sliding window on the app's store, for running without Vercel KV. It counts like Upstash does:
+// the current window plus the previous one, weighted by how much of it still overlaps.
+function localSlidingWindow(prefix: string, tokens: number, windowMs: number): Limiter {
+    return {
+        async limit(identifier) {
+            const now = Date.now()
+            const window = Math.floor(now / windowMs)
+            const key = (index: number) => `${prefix}:${identifier}:${index}`
+
+            const previous = (await kv.get<number>(key(window - 1))) ?? 0
+            const current = await kv.incrby(key(window), 1)
+            await kv.pexpireat(key(window), (window + 2) * windowMs)
+
+            const used = Math.floor(previous * (1 - (now % windowMs) / windowMs)) + current
+            const success = used <= tokens
+            if (!success) {
+                await kv.decrby(key(window), 1)
+            }
+            return {
+                success,
+                limit: tokens,
+                remaining: Math.max(0, tokens - used),
+                reset: (window + 1) * windowMs,
+            }
+        },
+    }
+}
+
+// Creating a sliding window limiter, backed by Upstash on Vercel KV when it is configured
+function slidingWindow(prefix: string, tokens: number, windowMs: number): Limiter {
+    if (!hasVercelKv()) {
+        return localSlidingWindow(prefix, tokens, windowMs)
+    }
+    return new Ratelimit({
+        redis: vercelKv,
+        prefix,
+        limiter: Ratelimit.slidingWindow(tokens, `${windowMs} ms`),
+    })
+}
+
+// Limiting sign-in emails, so they cannot be used to flood an inbox
+export const authRatelimit = slidingWindow(`${PREFIX}:auth`, 5, 15 * 60 * 1000)
+
+// Limiting likes by user or IP address, since the device cookie they are counted by can be reset at will
+export const likeRatelimit = slidingWindow(`${PREFIX}:likes`, 30, 60 * 60 * 1000)
+
+// Building the X-RateLimit-* headers sent with every quota or rate-limited response
+export const ratelimitHeaders = ({ limit, remaining, reset }: { limit: number, remaining: number, reset: number }) => ({
+    'X-RateLimit-Limit': limit.toString(),
+    'X-RateLimit-Remaining': remaining.toString(),
+    'X-RateLimit-Reset': reset.toString(),
+})
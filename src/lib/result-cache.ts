@@ -0,0 +1,82 @@
+import { getHistoryEntry } from '@/lib/history'
+import { kv } from '@/lib/kv'
+import { PREDICTION_TTL_SECONDS } from '@/lib/predictions'
+import type { Prediction, PredictionInput } from '@/lib/providers'
+import { loadQueuedPrediction } from '@/lib/queue'
+
+// Header telling the caller whether a run was reused (HIT), started fresh (MISS) or forced past the cache (BYPASS)
+export const CACHE_STATUS_HEADER = 'X-Cache'
+
+// Results are reused for a day unless RESULT_CACHE_TTL says otherwise
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24
+
+// Building the KV key of a cached result. Entries are kept per owner, so a hit always points at a design
+// that is already in the caller's history.
+const cacheKey = (owner: string, hash: string) => `result-cache:${owner}:${hash}`
+
+// Reading how long results are reused, never longer than the prediction they point at is stored
+export function getResultCacheTtl() {
+  const value = Number(process.env.RESULT_CACHE_TTL)
+  const ttl = Number.isInteger(value) && value >= 0 ? value : DEFAULT_TTL_SECONDS
+  return Math.min(ttl, PREDICTION_TTL_SECONDS)
+}
+
+// Normalising prompt text the way the model reads it: case and runs of whitespace make no difference
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// Hashing the model input and version into the cache key, with keys sorted and empty values left out.
+// Runs without a seed are random and never share a key.
+export async function resultCacheHash(input: PredictionInput, version?: string): Promise<string | null> {
+  if (input.seed === undefined || !getResultCacheTtl()) {
+    return null
+  }
+
+  const normalized: Record<string, unknown> = { version: version ?? null }
+  for (const name of Object.keys(input).sort() as (keyof PredictionInput)[]) {
+    const value = input[name]
+    if (value !== undefined && value !== '') {
+      normalized[name] = name === 'prompt' || name === 'negative_prompt' ? normalizeText(String(value)) : value
+    }
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(normalized)))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// CachedResult is what a cache entry holds: the job or prediction that produces the result, and when the
+// entry lapses, so pointing it at a started prediction keeps the original expiry
+interface CachedResult {
+  id: string
+  expiresAt: number
+}
+
+// Remembering the job or prediction that produces the result for a hash
+export async function cacheResult(owner: string, hash: string, id: string) {
+  const ttl = getResultCacheTtl()
+  const entry: CachedResult = { id, expiresAt: Date.now() + ttl * 1000 }
+  await kv.set(cacheKey(owner, hash), entry, { ex: ttl })
+}
+
+// Finding the result of an identical earlier run: finished, or still running so both callers share it.
+// Runs that failed or were canceled, and designs removed from the history, are not reused.
+export async function findCachedResult(owner: string, hash: string): Promise<Prediction | null> {
+  const entry = await kv.get<CachedResult>(cacheKey(owner, hash))
+  if (!entry?.id) {
+    return null
+  }
+
+  const prediction = await loadQueuedPrediction(entry.id).catch(() => null)
+  if (!prediction || prediction.status === 'failed' || prediction.status === 'canceled') {
+    return null
+  }
+  if (prediction.status === 'succeeded' && (await getHistoryEntry(prediction.id))?.owner !== owner) {
+    return null
+  }
+
+  // Pointing the entry at the prediction once its job started, since jobs expire before predictions do
+  const ttl = entry.expiresAt - Date.now()
+  if (prediction.id !== entry.id && ttl > 0) {
+    await kv.set(cacheKey(owner, hash), { ...entry, id: prediction.id }, { px: ttl })
+  }
+  return prediction
+}
@@ -0,0 +1,264 @@
+import sharp from 'sharp'
+
+import { ValidationError } from '@/lib/errors'
+
+// Formats a stencil can be exported as
+export const STENCIL_FORMATS = ['png', 'svg'] as const
+
+export type StencilFormat = (typeof STENCIL_FORMATS)[number]
+
+// Gradient magnitude, out of roughly 1440, above which a pixel is an outline
+const EDGE_THRESHOLD = 160
+
+// Ink specks with fewer pixels than this are dropped as noise
+const MIN_SPECK_PIXELS = 24
+
+// Stencil is a one-bit ink mask, 1 where the stencil is inked
+export interface Stencil {
+  width: number
+  height: number
+  ink: Uint8Array
+}
+
+// Checking a requested export format
+export function parseStencilFormat(value: string | null): StencilFormat {
+  const format = value ?? 'png'
+  if (!STENCIL_FORMATS.includes(format as StencilFormat)) {
+    throw new ValidationError(`Format must be one of ${STENCIL_FORMATS.join(', ')}.`)
+  }
+  return format as StencilFormat
+}
+
+// Marking outlines with a Sobel operator, thresholding the gradient magnitude
+function extractInk(grey: Buffer, width: number, height: number) {
+  const ink = new Uint8Array(width * height)
+  const at = (x: number, y: number) =>
+    grey[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+      const gy =
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) -
+        at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+      const magnitude = Math.sqrt(gx * gx + gy * gy)
+      ink[y * width + x] = magnitude > EDGE_THRESHOLD ? 1 : 0
+    }
+  }
+  return ink
+}
+
+// Dropping small connected groups of ink, which print as dirt on the transfer
+function despeckle(ink: Uint8Array, width: number, height: number) {
+  const seen = new Uint8Array(ink.length)
+  const stack: number[] = []
+  const component: number[] = []
+
+  for (let start = 0; start < ink.length; start++) {
+    if (!ink[start] || seen[start]) {
+      continue
+    }
+
+    // Flood filling the component with 8-connectivity
+    component.length = 0
+    stack.push(start)
+    seen[start] = 1
+    while (stack.length) {
+      const index = stack.pop()!
+      component.push(index)
+      const x = index % width
+      const y = (index - x) / width
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx
+          const ny = y + dy
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+            continue
+          }
+          const next = ny * width + nx
+          if (ink[next] && !seen[next]) {
+            seen[next] = 1
+            stack.push(next)
+          }
+        }
+      }
+    }
+
+    if (component.length < MIN_SPECK_PIXELS) {
+      for (const index of component) {
+        ink[index] = 0
+      }
+    }
+  }
+}
+
+// Converting an image into high-contrast line art
+export async function createStencil(image: Buffer): Promise<Stencil> {
+  // Smoothing before edge detection so texture does not turn into hatching
+  const { data, info } = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .normalise()
+    .blur(1)
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const ink = extractInk(data, info.width, info.height)
+  despeckle(ink, info.width, info.height)
+  return { width: info.width, height: info.height, ink }
+}
+
+// Rendering a stencil as a PNG with black ink on a transparent background
+export async function stencilToPng({ width, height, ink }: Stencil) {
+  const pixels = Buffer.alloc(width * height * 4)
+  for (let index = 0; index < ink.length; index++) {
+    // Black is already zeroed, only inked pixels need to be opaque
+    pixels[index * 4 + 3] = ink[index] ? 255 : 0
+  }
+  return sharp(pixels, { raw: { width, height, channels: 4 } }).png().toBuffer()
+}
+
+// Contour points may stray this far, in pixels, from the traced outline when it is simplified
+const SIMPLIFY_TOLERANCE = 0.75
+
+// Marching squares segments for each cell case, by the corners that are inked (top left 8, top right 4,
+// bottom right 2, bottom left 1), as pairs of cell edges: 0 top, 1 right, 2 bottom, 3 left. The two saddle cases
+// join their inked corners, matching the 8-connectivity the despeckle uses.
+const CELL_SEGMENTS: number[][] = [
+  [], [3, 2], [2, 1], [3, 1], [0, 1], [0, 3, 2, 1], [0, 2], [0, 3],
+  [0, 3], [0, 2], [0, 1, 3, 2], [0, 1], [3, 1], [1, 2], [3, 2], [],
+]
+
+// Point is a contour vertex in half pixels, so the midpoints between pixel centres stay whole numbers
+type Point = [number, number]
+
+// Tracing the outlines of the ink with marching squares, as closed loops of points in half pixels.
+// Every edge midpoint on an outline belongs to exactly two segments, so the segments chain into loops.
+function traceContours({ width, height, ink }: Stencil): Point[][] {
+  const inked = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && ink[y * width + x] === 1
+  // Keying midpoints by their position in half pixels, shifted by one so the ring's midpoints at -1 stay positive
+  const stride = 2 * width + 4
+  const key = (x: number, y: number) => (y + 1) * stride + x + 1
+  const links = new Map<number, number[]>()
+  const keys: number[] = []
+
+  const link = (from: number, to: number) => {
+    const existing = links.get(from)
+    if (existing) {
+      existing.push(to)
+    } else {
+      links.set(from, [to])
+      keys.push(from)
+    }
+  }
+
+  // Cells sit between four pixel centres, with a ring of empty pixels around the image so every outline closes
+  for (let y = -1; y < height; y++) {
+    for (let x = -1; x < width; x++) {
+      const segments =
+        CELL_SEGMENTS[
+          (inked(x, y) ? 8 : 0) | (inked(x + 1, y) ? 4 : 0) | (inked(x + 1, y + 1) ? 2 : 0) | (inked(x, y + 1) ? 1 : 0)
+        ]
+      // Keys of the top, right, bottom and left edge midpoints of the cell
+      const edges = [key(2 * x + 2, 2 * y + 1), key(2 * x + 3, 2 * y + 2), key(2 * x + 2, 2 * y + 3), key(2 * x + 1, 2 * y + 2)]
+      for (let index = 0; index < segments.length; index += 2) {
+        link(edges[segments[index]], edges[segments[index + 1]])
+        link(edges[segments[index + 1]], edges[segments[index]])
+      }
+    }
+  }
+
+  const visited = new Set<number>()
+  const contours: Point[][] = []
+  for (const start of keys) {
+    if (visited.has(start)) {
+      continue
+    }
+    const contour: Point[] = []
+    let previous = -1
+    let current = start
+    while (!visited.has(current)) {
+      visited.add(current)
+      contour.push([(current % stride) - 1, Math.floor(current / stride) - 1])
+      const [first, second] = links.get(current)!
+      const next = first === previous ? second : first
+      previous = current
+      current = next
+    }
+    contours.push(contour)
+  }
+  return contours
+}
+
+// Squared distance from a point to the line through two others
+function lineDistanceSquared([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) {
+  const dx = bx - ax
+  const dy = by - ay
+  const length = dx * dx + dy * dy
+  if (!length) {
+    return (px - ax) ** 2 + (py - ay) ** 2
+  }
+  const cross = dx * (py - ay) - dy * (px - ax)
+  return (cross * cross) / length
+}
+
+// Simplifying a closed contour with Ramer-Douglas-Peucker, so straight runs become single segments.
+// The loop is split at the point farthest from its start and each half simplified on its own.
+function simplifyContour(contour: Point[], tolerance: number): Point[] {
+  const limit = tolerance * tolerance * 4
+  let far = 0
+  for (let index = 1; index < contour.length; index++) {
+    const [x, y] = contour[index]
+    const [fx, fy] = contour[far]
+    if ((x - contour[0][0]) ** 2 + (y - contour[0][1]) ** 2 > (fx - contour[0][0]) ** 2 + (fy - contour[0][1]) ** 2) {
+      far = index
+    }
+  }
+
+  const points = [...contour, contour[0]]
+  const keep = new Uint8Array(points.length)
+  keep[0] = keep[far] = keep[points.length - 1] = 1
+  const ranges: [number, number][] = [[0, far], [far, points.length - 1]]
+  while (ranges.length) {
+    const [from, to] = ranges.pop()!
+    let worst = -1
+    let worstDistance = limit
+    for (let index = from + 1; index < to; index++) {
+      const distance = lineDistanceSquared(points[index], points[from], points[to])
+      if (distance > worstDistance) {
+        worst = index
+        worstDistance = distance
+      }
+    }
+    if (worst !== -1) {
+      keep[worst] = 1
+      ranges.push([from, worst], [worst, to])
+    }
+  }
+  return points.slice(0, -1).filter((point, index) => keep[index])
+}
+
+// Writing a coordinate in half pixels as pixels
+const toPixels = (value: number) => String(value / 2)
+
+// Rendering a stencil as an SVG of line art: the traced, simplified outline of every inked stroke,
+// filled even-odd so the holes inside closed shapes stay open
+export function stencilToSvg(stencil: Stencil) {
+  const { width, height } = stencil
+  const commands: string[] = []
+  for (const contour of traceContours(stencil)) {
+    const points = simplifyContour(contour, SIMPLIFY_TOLERANCE)
+    if (points.length < 3) {
+      continue
+    }
+    commands.push(
+      `M${points.map(([x, y]) => `${toPixels(x)} ${toPixels(y)}`).join('L')}Z`
+    )
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<path fill="#000" fill-rule="evenodd" d="${commands.join('')}"/></svg>`
+}
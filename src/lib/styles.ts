@@ -0,0 +1,107 @@
+import { ValidationError } from '@/lib/errors'
+
+// Identifiers of the available style presets
+export type StyleId =
+  | 'tok'
+  | 'fine-line'
+  | 'traditional'
+  | 'neo-traditional'
+  | 'blackwork'
+  | 'watercolor'
+  | 'geometric'
+  | 'japanese'
+  | 'minimalist'
+
+// StylePreset maps a style onto a prompt template and, optionally, a dedicated model version
+export interface StylePreset {
+  id: StyleId
+  name: string
+  description: string
+  // Prompt template, where {prompt} is replaced with the user's message
+  template: string
+  // Negative prompt always sent with this style
+  negativePrompt?: string
+  // Replicate model version to use instead of the default
+  version?: string
+}
+
+// Style used when the request does not name one
+export const DEFAULT_STYLE_ID: StyleId = 'tok'
+
+// Catalog of style presets offered to users
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'tok',
+    name: 'Signature',
+    description: 'The signature TOK tattoo style the model was trained on.',
+    template: 'in the style of TOK,{prompt} as a tattoo',
+  },
+  {
+    id: 'fine-line',
+    name: 'Fine line',
+    description: 'Delicate single-needle linework with minimal shading.',
+    template: 'in the style of TOK, fine line tattoo of {prompt}, thin delicate lines, minimal shading, white background',
+    negativePrompt: 'thick lines, heavy shading, color',
+  },
+  {
+    id: 'traditional',
+    name: 'Traditional',
+    description: 'American traditional flash with bold outlines and a limited palette.',
+    template: 'in the style of TOK, american traditional tattoo flash of {prompt}, bold black outlines, limited red yellow green palette',
+  },
+  {
+    id: 'neo-traditional',
+    name: 'Neo-traditional',
+    description: 'Traditional outlines with richer colors and illustrative detail.',
+    template: 'in the style of TOK, neo-traditional tattoo of {prompt}, bold outlines, rich jewel tone colors, ornamental details',
+  },
+  {
+    id: 'blackwork',
+    name: 'Blackwork',
+    description: 'Solid black ink, high contrast, no color.',
+    template: 'in the style of TOK, blackwork tattoo of {prompt}, solid black ink, high contrast',
+    negativePrompt: 'color, gradient, watercolor',
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    description: 'Soft washes of color with painterly splashes.',
+    template: 'in the style of TOK, watercolor tattoo of {prompt}, soft color washes, paint splashes, loose brush strokes',
+  },
+  {
+    id: 'geometric',
+    name: 'Geometric',
+    description: 'Clean shapes, sacred geometry and symmetrical patterns.',
+    template: 'in the style of TOK, geometric tattoo of {prompt}, clean lines, sacred geometry, symmetrical patterns',
+  },
+  {
+    id: 'japanese',
+    name: 'Japanese',
+    description: 'Irezumi with waves, clouds and bold traditional motifs.',
+    template: 'in the style of TOK, japanese irezumi tattoo of {prompt}, waves and clouds, bold outlines, traditional japanese motifs',
+  },
+  {
+    id: 'minimalist',
+    name: 'Minimalist',
+    description: 'Small, simple designs with as few lines as possible.',
+    template: 'in the style of TOK, minimalist tattoo of {prompt}, simple, few lines, small design, white background',
+    negativePrompt: 'detailed, shading, color, background',
+  },
+]
+
+// Looking up a style preset, throwing a ValidationError for unknown ids
+export function getStylePreset(id: string = DEFAULT_STYLE_ID): StylePreset {
+  const style = STYLE_PRESETS.find((preset) => preset.id === id)
+  if (!style) {
+    throw new ValidationError(`Unknown style "${id}".`)
+  }
+  return style
+}
+
+// Filling a style's template with the user's message, through a function so "$&" and the like in it stay literal
+export const buildPrompt = (style: StylePreset, message: string) =>
+  style.template.replace('{prompt}', () => message)
+
+// Combining the style's negative prompt with the user's own
+export const buildNegativePrompt = (style: StylePreset, negativePrompt?: string) =>
+  [style.negativePrompt, negativePrompt].filter(Boolean).join(', ') || undefined
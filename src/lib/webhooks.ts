@@ -0,0 +1,65 @@
+// Webhooks older than this are rejected to prevent replay attacks
+const TOLERANCE_SECONDS = 5 * 60
+
+// Headers Replicate sends with every webhook, following the Standard Webhooks spec
+export interface WebhookHeaders {
+  id: string | null
+  timestamp: string | null
+  signature: string | null
+}
+
+// Decoding a base64 string into bytes
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+// Encoding bytes as a base64 string
+const toBase64 = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode.apply(null, Array.from(new Uint8Array(bytes))))
+
+// Comparing two strings without leaking timing information
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false
+  }
+  let result = 0
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return result === 0
+}
+
+// Verifying a Replicate webhook signature against the signing secret ("whsec_...")
+export async function verifyWebhook(
+  body: string,
+  headers: WebhookHeaders,
+  secret: string
+): Promise<boolean> {
+  const { id, timestamp, signature } = headers
+  if (!id || !timestamp || !signature) {
+    return false
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp))
+  if (!Number.isFinite(age) || age > TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    fromBase64(secret.replace(/^whsec_/, '')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signed = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${id}.${timestamp}.${body}`)
+  )
+  const expected = toBase64(signed)
+
+  // The header holds a space-separated list of "v1,<signature>" entries
+  return signature
+    .split(' ')
+    .some((entry) => safeEqual(entry.split(',')[1] ?? '', expected))
+}
@@ -0,0 +1,46 @@
+// Importing necessary types from Next.js server
+import { NextRequest, NextResponse } from 'next/server'
+
+// Importing the device cookie settings
+import { DEVICE_ID_COOKIE, DEVICE_ID_MAX_AGE } from '@/lib/identity'
+
+// Importing the session verification, which runs before any handler can read the user
+import { SESSION_COOKIE, USER_ID_HEADER, verifySession } from '@/lib/auth/session'
+
+// Giving every browser an anonymous device id, so its data can be found again later,
+// and passing the signed-in user's id on to handlers
+export async function middleware(req: NextRequest) {
+  const headers = new Headers(req.headers)
+
+  // The user id header is only ever set here, never taken from the client
+  headers.delete(USER_ID_HEADER)
+  const session = await verifySession(req.cookies.get(SESSION_COOKIE)?.value)
+  if (session) {
+    headers.set(USER_ID_HEADER, session.userId)
+  }
+
+  if (req.cookies.has(DEVICE_ID_COOKIE)) {
+    return NextResponse.next({ request: { headers } })
+  }
+
+  const deviceId = crypto.randomUUID()
+
+  // Exposing the new cookie to the handler serving this very request
+  req.cookies.set(DEVICE_ID_COOKIE, deviceId)
+  headers.set('cookie', req.headers.get('cookie') ?? '')
+  const response = NextResponse.next({ request: { headers } })
+
+  response.cookies.set(DEVICE_ID_COOKIE, deviceId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: DEVICE_ID_MAX_AGE,
+    path: '/',
+  })
+  return response
+}
+
+// Skipping static assets and images
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|images|placements|favicon.ico).*)'],
+}